@@ -0,0 +1,110 @@
+import { createNoise4D } from 'simplex-noise';
+import { createSeededRandom } from './generation';
+
+// Procedural Wang atlas synthesis: builds all 15 corner roles of an isometric terrain from one
+// seamless base texture. Pure pixel math with no DOM access - main.ts reads and writes the images.
+
+// --- TYPES ---
+// RGBA pixels, row-major (same layout as ImageData)
+export interface PixelImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export interface AtlasGeneratorSettings {
+    seed: number;
+    softness: number;   // Half-width of the blended band around the edge (coverage units, 0-0.25)
+    edgeNoise: number;  // How far noise pushes the edge in or out (0 = straight bilinear edges)
+    noiseScale: number; // Noise features across one tile
+}
+
+export interface GeneratedAtlas {
+    image: PixelImage;
+    columns: number;
+    members: Array<{ id: number; role: number }>; // Tile id = role - 1
+}
+
+export const DEFAULT_ATLAS_GENERATOR: AtlasGeneratorSettings = { seed: 1, softness: 0.08, edgeNoise: 0.25, noiseScale: 3 };
+export const ATLAS_COLUMNS = 8; // Same 8 x 2 layout as the built-in atlases
+
+// --- SYNTHESIS ---
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+}
+
+// Luma of a mask pixel at (u, v) in 0-1, wrapping so a seamless mask stays seamless
+function sampleMaskLuma(mask: PixelImage, u: number, v: number): number {
+    const x = Math.floor(u * mask.width) % mask.width;
+    const y = Math.floor(v * mask.height) % mask.height;
+    const i = (y * mask.width + x) * 4;
+    return (0.299 * mask.data[i] + 0.587 * mask.data[i + 1] + 0.114 * mask.data[i + 2]) / 255;
+}
+
+// Synthesize the 15-role atlas. Each tile is the base texture stretched over the tile's bounding box,
+// with alpha from the role's corner coverage:
+// - Tile pixels map to grid space (a, b) in 0-1, with the visual Top/Right/Bottom/Left corners at
+//   (0,0)/(1,0)/(1,1)/(0,1) - the same bits as getLayerRole in main.ts
+// - Coverage is the bilinear blend of the four corners (1 where the role has terrain)
+// - The edge (coverage 0.5) is pushed around by noise that is periodic in (a, b), so the shared
+//   edge of two neighbouring tiles gets the same noise and transitions line up seamlessly
+export function synthesizeWangAtlas(base: PixelImage, mask: PixelImage | null, tileWidth: number, tileHeight: number,
+    settings: AtlasGeneratorSettings): GeneratedAtlas {
+    const rows = Math.ceil(15 / ATLAS_COLUMNS);
+    const width = ATLAS_COLUMNS * tileWidth;
+    const height = rows * tileHeight;
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    // Keep the blend band inside 0-1 so full corners stay opaque and empty ones fully transparent
+    const softness = Math.max(0.001, Math.min(0.25, settings.softness));
+    const noise4D = createNoise4D(createSeededRandom(settings.seed));
+    const radius = settings.noiseScale / (2 * Math.PI);
+    const edgeAt = (a: number, b: number): number => {
+        // Sampling a 4D torus makes the noise wrap in both a and b
+        const n = mask
+            ? sampleMaskLuma(mask, a, b) * 2 - 1
+            : noise4D(radius * Math.cos(2 * Math.PI * a), radius * Math.sin(2 * Math.PI * a),
+                radius * Math.cos(2 * Math.PI * b), radius * Math.sin(2 * Math.PI * b));
+        return Math.max(softness, Math.min(1 - softness, 0.5 + settings.edgeNoise * n));
+    };
+
+    for (let role = 1; role <= 15; role++) {
+        const id = role - 1;
+        const originX = (id % ATLAS_COLUMNS) * tileWidth;
+        const originY = Math.floor(id / ATLAS_COLUMNS) * tileHeight;
+        const top = role & 1 ? 1 : 0;
+        const right = role & 2 ? 1 : 0;
+        const bottom = role & 4 ? 1 : 0;
+        const left = role & 8 ? 1 : 0;
+
+        for (let py = 0; py < tileHeight; py++) {
+            for (let px = 0; px < tileWidth; px++) {
+                // Diamond-local coordinates: -1..1 from the tile center to its corners
+                const dx = (px + 0.5 - tileWidth / 2) / (tileWidth / 2);
+                const dy = (py + 0.5 - tileHeight / 2) / (tileHeight / 2);
+                if (Math.abs(dx) + Math.abs(dy) > 1) continue; // Outside the diamond stays transparent
+
+                const a = (dx + dy) / 2 + 0.5;
+                const b = (dy - dx) / 2 + 0.5;
+                const coverage = (1 - a) * (1 - b) * top + a * (1 - b) * right + a * b * bottom + (1 - a) * b * left;
+                const edge = edgeAt(a, b);
+                const alpha = role === 15 ? 1 : smoothstep(edge - softness, edge + softness, coverage);
+                if (alpha === 0) continue;
+
+                const srcX = Math.min(base.width - 1, Math.floor(px * base.width / tileWidth));
+                const srcY = Math.min(base.height - 1, Math.floor(py * base.height / tileHeight));
+                const src = (srcY * base.width + srcX) * 4;
+                const dst = ((originY + py) * width + originX + px) * 4;
+                data[dst] = base.data[src];
+                data[dst + 1] = base.data[src + 1];
+                data[dst + 2] = base.data[src + 2];
+                data[dst + 3] = Math.round(base.data[src + 3] * alpha);
+            }
+        }
+    }
+
+    const members: GeneratedAtlas['members'] = [];
+    for (let role = 1; role <= 15; role++) members.push({ id: role - 1, role });
+    return { image: { width, height, data }, columns: ATLAS_COLUMNS, members };
+}
@@ -0,0 +1,814 @@
+import { createNoise2D, type NoiseFunction2D } from 'simplex-noise';
+
+// Map generation: pure functions of a MapConfig, with no DOM access, so they run the same
+// in the generation worker (see generation.worker.ts) and on the main thread.
+
+// --- TYPES ---
+export enum TerrainType {
+    Water = 0,
+    Sand = 1,
+    Dirt = 2,
+    Grass = 3
+}
+
+export interface TerrainBucket {
+    name: string;
+    color: string;
+    threshold: number; // Minimum noise value for this terrain
+    terrainType: TerrainType; // Maps to asset loading if available
+    texturePack?: string; // Id of the asset manifest pack used for textures (unset for uploads)
+    customTexture?: File; // Optional custom texture file
+    customTextureDataUrl?: string; // Data URL of the custom texture (kept for project saving)
+    customWangJson?: string; // Wang JSON uploaded with the custom texture (built-in layout when unset)
+    customTextureLoaded?: boolean; // Track if custom texture is loaded
+}
+
+export enum NoiseMode {
+    Standard = 0, // Plain simplex noise
+    Ridged = 1,   // 1 - 2|n|: sharp crests, good for mountain ranges
+    Billow = 2    // 2|n| - 1: rounded blobs, good for hills and clouds
+}
+
+// One noise layer. Each layer is expanded into `fractal.octaves` fBm octaves,
+// starting at `frequency` and multiplying by lacunarity / persistence per octave
+export interface NoiseLayer {
+    frequency: number; // Lower = larger features (the old "scale")
+    amplitude: number; // Relative weight of this layer in the final sum
+    mode: NoiseMode;
+}
+
+export interface FractalSettings {
+    octaves: number;     // Octaves per layer (1 = just the layer itself)
+    lacunarity: number;  // Frequency multiplier between octaves
+    persistence: number; // Amplitude multiplier between octaves
+}
+
+// Domain warping: sample coordinates are pushed around by secondary noise fields before
+// the height noise is read, which bends blobby coastlines into swirls and channels
+export interface WarpSettings {
+    strength: number;   // Max offset in cells (0 = off)
+    frequency: number;  // Frequency of the warp fields
+    iterations: number; // Each pass warps the already-warped coordinates again
+}
+
+// Whittaker-style biome table: elevation bands (rows) x moisture bands (columns).
+// When enabled it replaces the single bucket threshold list; buckets still supply the art.
+export interface BiomeSettings {
+    enabled: boolean;
+    moistureFrequency: number;
+    elevationBreaks: number[]; // Ascending band boundaries in [-1, 1]; N breaks = N + 1 rows
+    moistureBreaks: number[];  // Ascending band boundaries in [-1, 1]; N breaks = N + 1 columns
+    table: TerrainType[][];    // table[elevationBand][moistureBand], band 0 = lowest / driest
+}
+
+export enum FalloffShape {
+    None = 0,   // Noise runs off every edge
+    Radial = 1, // Island: distance from the centre
+    Square = 2, // Continent filling the map, falling off near the edges
+    Image = 3   // User-supplied grayscale mask (white = land)
+}
+
+// Grayscale mask (downsampled on upload), 0-255 per pixel
+export interface FalloffMask {
+    width: number;
+    height: number;
+    values: number[];
+}
+
+// Falloff pulls elevation down towards -1 (the lowest bucket) near the map edge,
+// so coastlines meet the out-of-bounds water naturally
+export interface FalloffSettings {
+    shape: FalloffShape;
+    strength: number; // 0 = no effect, 1 = edge is always the lowest bucket
+    curve: number[];  // Mask value at evenly spaced distances from centre (0) to edge (1), linearly interpolated
+    mask: FalloffMask | null;
+}
+
+// Rivers start above `sourceElevation` and follow steepest descent (over a pit-filled
+// copy of the elevation field) until they reach existing water or the map edge
+export interface RiverSettings {
+    count: number;           // Rivers to carve (0 = off)
+    minLength: number;       // Shorter paths are discarded, in cells
+    sourceElevation: number; // Minimum elevation (-1 to 1) for a river source
+    maxRadius: number;       // Widest river half-width in cells; width grows with accumulated flow
+    waterType: TerrainType;  // Bucket written along the river
+    bankType: TerrainType | null; // Optional bucket written around the river (e.g. sand banks)
+}
+
+// Erosion runs on the height field after noise + falloff and before bucketing
+export interface ErosionSettings {
+    droplets: number;          // Hydraulic erosion: rain droplets simulated (0 = off)
+    rain: number;              // Starting water per droplet
+    sedimentCapacity: number;  // How much sediment running water can carry (higher = deeper gullies)
+    thermalIterations: number; // Thermal erosion passes (0 = off)
+    talus: number;             // Steepest stable height difference between neighbours before material slides
+}
+
+// Post-classification cleanup, also runnable on an existing (hand-edited) grid
+export interface CleanupSettings {
+    smoothingPasses: number;    // Cellular-automaton majority passes (0 = off)
+    minRegionSize: number;      // Connected regions smaller than this merge into their surroundings (0 = off)
+    resolveDiagonals: boolean;  // Remove checkerboard 2x2 blocks (Wang roles 5 and 10)
+}
+
+export interface MapConfig {
+    noiseLayers: NoiseLayer[];
+    fractal: FractalSettings;
+    warp: WarpSettings;
+    falloff: FalloffSettings;
+    erosion: ErosionSettings;
+    cleanup: CleanupSettings;
+    rivers: RiverSettings;
+    biome: BiomeSettings;
+    seed: number | null;
+    width: number;
+    height: number;
+    buckets: TerrainBucket[];
+}
+
+export const DEFAULT_FRACTAL: FractalSettings = { octaves: 1, lacunarity: 2.0, persistence: 0.5 };
+export const DEFAULT_WARP: WarpSettings = { strength: 0, frequency: 0.02, iterations: 1 };
+export const DEFAULT_FALLOFF: FalloffSettings = { shape: FalloffShape.None, strength: 1, curve: [1, 1, 0.95, 0.75, 0.35, 0], mask: null };
+export const DEFAULT_EROSION: ErosionSettings = { droplets: 0, rain: 1, sedimentCapacity: 2, thermalIterations: 0, talus: 0.03 };
+export const DEFAULT_CLEANUP: CleanupSettings = { smoothingPasses: 0, minRegionSize: 0, resolveDiagonals: false };
+const MAX_DIAGONAL_PASSES = 8; // Fixing one pinch can create another next to it; stop after this many sweeps
+export const DEFAULT_RIVERS: RiverSettings = { count: 0, minLength: 12, sourceElevation: 0.4, maxRadius: 2, waterType: TerrainType.Water, bankType: null };
+const RIVER_FLOW_PER_WIDTH = 16; // Cells of upstream river needed before a river widens (then doubling per step)
+export const DEFAULT_BIOME: BiomeSettings = {
+    enabled: false,
+    moistureFrequency: 0.01,
+    elevationBreaks: [-0.2, 0.3],
+    moistureBreaks: [0],
+    table: [
+        [TerrainType.Water, TerrainType.Water], // Low: water everywhere
+        [TerrainType.Dirt, TerrainType.Grass],  // Mid: dirt when dry, grass when wet
+        [TerrainType.Sand, TerrainType.Grass]   // High: sand when dry, grass when wet
+    ]
+};
+
+// --- SEEDED RANDOM ---
+// All generation randomness must come from these so a seed reproduces the same map
+// on every reload, browser and headless runtime (Math.random is never used for cells)
+
+// Hash any finite number (including fractional seeds typed into the config panel) to a uint32
+function hashSeed(seed: number): number {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, seed);
+    let h = 0x811c9dc5; // FNV-1a over the 8 bytes of the IEEE-754 representation
+    for (let i = 0; i < 8; i++) {
+        h ^= view.getUint8(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+// Mulberry32 PRNG - small, fast and identical across JS engines (pure 32-bit integer math)
+export function createSeededRandom(seed: number): () => number {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// --- NOISE ---
+// One simplex table per layer index, all drawn from the seeded PRNG so layer N always
+// gets the same table for a given seed (changing one layer never reshuffles the others)
+function createLayerNoises(seed: number, layerCount: number): NoiseFunction2D[] {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: layerCount }, () => createNoise2D(random));
+}
+
+function shapeNoise(value: number, mode: NoiseMode): number {
+    switch (mode) {
+        case NoiseMode.Ridged: return 1 - 2 * Math.abs(value);
+        case NoiseMode.Billow: return 2 * Math.abs(value) - 1;
+        default: return value;
+    }
+}
+
+// Two fields (x and y offset) per warp iteration, from their own PRNG stream so turning
+// warping on or off never changes the height layers for a seed
+function createWarpNoises(seed: number, iterations: number): NoiseFunction2D[] {
+    const random = createSeededRandom(hashSeed(seed) ^ 0x9e3779b9);
+    return Array.from({ length: iterations * 2 }, () => createNoise2D(random));
+}
+
+function warpCoordinates(noises: NoiseFunction2D[], warp: WarpSettings, x: number, y: number): [number, number] {
+    if (warp.strength <= 0 || warp.frequency <= 0) return [x, y];
+
+    for (let i = 0; i < warp.iterations; i++) {
+        const dx = noises[i * 2](x * warp.frequency, y * warp.frequency);
+        const dy = noises[i * 2 + 1](x * warp.frequency, y * warp.frequency);
+        x += dx * warp.strength;
+        y += dy * warp.strength;
+    }
+    return [x, y];
+}
+
+// Piecewise-linear lookup of `curve` at t in [0, 1]
+function sampleCurve(curve: number[], t: number): number {
+    if (curve.length === 0) return 1;
+    if (curve.length === 1) return curve[0];
+    const position = Math.max(0, Math.min(1, t)) * (curve.length - 1);
+    const i = Math.min(Math.floor(position), curve.length - 2);
+    return curve[i] + (curve[i + 1] - curve[i]) * (position - i);
+}
+
+// Bilinear lookup into a grayscale mask at normalized coordinates, 0-1
+function sampleFalloffMask(mask: FalloffMask, u: number, v: number): number {
+    const fx = Math.max(0, Math.min(mask.width - 1, u * mask.width - 0.5));
+    const fy = Math.max(0, Math.min(mask.height - 1, v * mask.height - 0.5));
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(x0 + 1, mask.width - 1), y1 = Math.min(y0 + 1, mask.height - 1);
+    const at = (x: number, y: number) => mask.values[y * mask.width + x];
+    const top = at(x0, y0) + (at(x1, y0) - at(x0, y0)) * (fx - x0);
+    const bottom = at(x0, y1) + (at(x1, y1) - at(x0, y1)) * (fx - x0);
+    return (top + (bottom - top) * (fy - y0)) / 255;
+}
+
+// Multiplier in [0, 1] for cell (x, y) of a width x height map (1 = untouched)
+function sampleFalloff(falloff: FalloffSettings, x: number, y: number, width: number, height: number): number {
+    const u = (x + 0.5) / width;
+    const v = (y + 0.5) / height;
+    let mask: number;
+
+    switch (falloff.shape) {
+        case FalloffShape.Radial:
+            mask = sampleCurve(falloff.curve, Math.hypot(u * 2 - 1, v * 2 - 1));
+            break;
+        case FalloffShape.Square:
+            mask = sampleCurve(falloff.curve, Math.max(Math.abs(u * 2 - 1), Math.abs(v * 2 - 1)));
+            break;
+        case FalloffShape.Image:
+            mask = falloff.mask ? sampleFalloffMask(falloff.mask, u, v) : 1;
+            break;
+        default:
+            return 1;
+    }
+
+    return 1 - falloff.strength * (1 - mask);
+}
+
+// Fractal Brownian motion over all layers, normalized by the total amplitude so the
+// result stays in [-1, 1] and bucket thresholds keep their meaning
+function sampleFractalNoise(noises: NoiseFunction2D[], layers: NoiseLayer[], fractal: FractalSettings, x: number, y: number): number {
+    let sum = 0;
+    let totalAmplitude = 0;
+
+    for (let i = 0; i < layers.length; i++) {
+        const layer = layers[i];
+        if (layer.frequency <= 0 || layer.amplitude <= 0) continue;
+
+        let frequency = layer.frequency;
+        let amplitude = layer.amplitude;
+        for (let octave = 0; octave < fractal.octaves; octave++) {
+            sum += shapeNoise(noises[i](x * frequency, y * frequency), layer.mode) * amplitude;
+            totalAmplitude += amplitude;
+            frequency *= fractal.lacunarity;
+            amplitude *= fractal.persistence;
+        }
+    }
+
+    return totalAmplitude > 0 ? sum / totalAmplitude : 0;
+}
+
+// --- BIOMES ---
+export function cloneBiome(biome: BiomeSettings): BiomeSettings {
+    return {
+        ...biome,
+        elevationBreaks: [...biome.elevationBreaks],
+        moistureBreaks: [...biome.moistureBreaks],
+        table: biome.table.map(row => [...row])
+    };
+}
+
+// Index of the band `value` falls into (number of breaks at or below it)
+function findBand(breaks: number[], value: number): number {
+    let band = 0;
+    while (band < breaks.length && value >= breaks[band]) band++;
+    return band;
+}
+
+// Moisture gets its own PRNG stream so enabling biomes leaves the elevation field unchanged
+function createMoistureNoise(seed: number): NoiseFunction2D {
+    return createNoise2D(createSeededRandom(hashSeed(seed) ^ 0x85ebca6b));
+}
+
+// --- EROSION ---
+// 4-connected on purpose: diagonal river steps would leave cells touching only at corners,
+// which the dual grid draws as a chain of pinched puddles
+const NEIGHBOR_OFFSETS: Array<[number, number]> = [[0, -1], [-1, 0], [1, 0], [0, 1]];
+
+// Tuning constants for the droplet simulation (see Hans Theobald Beyer, "Implementation of a
+// method for hydraulic erosion"); the exposed settings cover what artists actually adjust
+const DROPLET_LIFETIME = 30;
+const DROPLET_INERTIA = 0.05;
+const DROPLET_MIN_CAPACITY = 0.001;
+const DROPLET_ERODE_SPEED = 0.3;
+const DROPLET_DEPOSIT_SPEED = 0.3;
+const DROPLET_EVAPORATION = 0.02;
+const DROPLET_GRAVITY = 4;
+const THERMAL_RATE = 0.5; // Fraction of the excess slope moved per pass
+
+// Bilinear height and gradient at a continuous position inside the grid
+function sampleHeightGradient(heights: Float32Array, width: number, x: number, y: number): { height: number; gx: number; gy: number } {
+    const cx = Math.floor(x), cy = Math.floor(y);
+    const u = x - cx, v = y - cy;
+    const i = cy * width + cx;
+    const h00 = heights[i], h10 = heights[i + 1], h01 = heights[i + width], h11 = heights[i + width + 1];
+    return {
+        height: h00 * (1 - u) * (1 - v) + h10 * u * (1 - v) + h01 * (1 - u) * v + h11 * u * v,
+        gx: (h10 - h00) * (1 - v) + (h11 - h01) * v,
+        gy: (h01 - h00) * (1 - u) + (h11 - h10) * u
+    };
+}
+
+// Particle-based hydraulic erosion: droplets run downhill, picking up sediment where they
+// speed up and dropping it where they slow down or pool. Modifies `heights` in place.
+function erodeHydraulic(heights: Float32Array, width: number, height: number, erosion: ErosionSettings, seed: number,
+    onProgress?: (fraction: number) => void) {
+    if (erosion.droplets <= 0 || width < 2 || height < 2) return;
+    const random = createSeededRandom(hashSeed(seed) ^ 0x27d4eb2f);
+
+    // Spread a height change over the four cells around (x, y) with bilinear weights
+    const deposit = (x: number, y: number, amount: number) => {
+        const cx = Math.floor(x), cy = Math.floor(y);
+        const u = x - cx, v = y - cy;
+        const i = cy * width + cx;
+        heights[i] += amount * (1 - u) * (1 - v);
+        heights[i + 1] += amount * u * (1 - v);
+        heights[i + width] += amount * (1 - u) * v;
+        heights[i + width + 1] += amount * u * v;
+    };
+
+    const reportEvery = Math.max(1, Math.floor(erosion.droplets / 20));
+    for (let d = 0; d < erosion.droplets; d++) {
+        if (onProgress && d % reportEvery === 0) onProgress(d / erosion.droplets);
+        let x = random() * (width - 1);
+        let y = random() * (height - 1);
+        let dirX = 0, dirY = 0;
+        let speed = 1;
+        let water = erosion.rain;
+        let sediment = 0;
+
+        for (let step = 0; step < DROPLET_LIFETIME; step++) {
+            const here = sampleHeightGradient(heights, width, x, y);
+
+            // Blend the previous direction with the downhill direction
+            dirX = dirX * DROPLET_INERTIA - here.gx * (1 - DROPLET_INERTIA);
+            dirY = dirY * DROPLET_INERTIA - here.gy * (1 - DROPLET_INERTIA);
+            const length = Math.hypot(dirX, dirY);
+            if (length === 0) break; // Flat ground - the droplet stops
+            dirX /= length;
+            dirY /= length;
+
+            const prevX = x, prevY = y;
+            x += dirX;
+            y += dirY;
+            if (x < 0 || y < 0 || x >= width - 1 || y >= height - 1) break; // Ran off the map
+
+            const deltaHeight = sampleHeightGradient(heights, width, x, y).height - here.height;
+            const capacity = Math.max(-deltaHeight * speed * water * erosion.sedimentCapacity, DROPLET_MIN_CAPACITY);
+
+            if (sediment > capacity || deltaHeight > 0) {
+                // Uphill: fill the pit behind us; otherwise drop the excess sediment
+                const amount = deltaHeight > 0 ? Math.min(deltaHeight, sediment) : (sediment - capacity) * DROPLET_DEPOSIT_SPEED;
+                sediment -= amount;
+                deposit(prevX, prevY, amount);
+            } else {
+                // Never dig deeper than the drop we just made, or erosion creates new pits
+                const amount = Math.min((capacity - sediment) * DROPLET_ERODE_SPEED, -deltaHeight);
+                sediment += amount;
+                deposit(prevX, prevY, -amount);
+            }
+
+            speed = Math.sqrt(Math.max(0, speed * speed - deltaHeight * DROPLET_GRAVITY));
+            water *= 1 - DROPLET_EVAPORATION;
+        }
+    }
+}
+
+// Thermal (talus) erosion: material slides from any cell to its lowest 4-neighbour while the
+// height difference exceeds the talus threshold. Modifies `heights` in place.
+function erodeThermal(heights: Float32Array, width: number, height: number, erosion: ErosionSettings) {
+    const delta = new Float32Array(width * height);
+
+    for (let pass = 0; pass < erosion.thermalIterations; pass++) {
+        delta.fill(0);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                let lowest = -1;
+                let maxDiff = erosion.talus;
+                for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+                    const nx = x + dx, ny = y + dy;
+                    if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                    const diff = heights[i] - heights[ny * width + nx];
+                    if (diff > maxDiff) {
+                        maxDiff = diff;
+                        lowest = ny * width + nx;
+                    }
+                }
+                if (lowest === -1) continue;
+
+                // Move half the excess (times the rate) so the pair ends closer to the talus slope
+                const amount = (maxDiff - erosion.talus) * 0.5 * THERMAL_RATE;
+                delta[i] -= amount;
+                delta[lowest] += amount;
+            }
+        }
+        for (let i = 0; i < heights.length; i++) heights[i] += delta[i];
+    }
+}
+
+// --- RIVERS ---
+
+// Priority-flood pit filling (Barnes et al.): raise every depression to its spill height
+// plus a tiny slope, so steepest descent from any cell always reaches the map edge
+function fillPits(heights: Float32Array, width: number, height: number): Float32Array {
+    const EPSILON = 1e-4;
+    const filled = new Float32Array(heights);
+    const visited = new Uint8Array(width * height);
+    const heap: number[] = []; // Binary min-heap of cell indices keyed by `filled`
+
+    const push = (index: number) => {
+        heap.push(index);
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (filled[heap[parent]] <= filled[heap[i]]) break;
+            [heap[parent], heap[i]] = [heap[i], heap[parent]];
+            i = parent;
+        }
+    };
+    const pop = (): number => {
+        const top = heap[0];
+        const last = heap.pop()!;
+        if (heap.length > 0) {
+            heap[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1, right = left + 1;
+                let smallest = i;
+                if (left < heap.length && filled[heap[left]] < filled[heap[smallest]]) smallest = left;
+                if (right < heap.length && filled[heap[right]] < filled[heap[smallest]]) smallest = right;
+                if (smallest === i) break;
+                [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    };
+
+    // The map edge drains off-map, so flooding starts from every border cell
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+                visited[y * width + x] = 1;
+                push(y * width + x);
+            }
+        }
+    }
+
+    while (heap.length > 0) {
+        const index = pop();
+        const cx = index % width, cy = Math.floor(index / width);
+        for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+            const nx = cx + dx, ny = cy + dy;
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            const neighbor = ny * width + nx;
+            if (visited[neighbor]) continue;
+            visited[neighbor] = 1;
+            filled[neighbor] = Math.max(filled[neighbor], filled[index] + EPSILON);
+            push(neighbor);
+        }
+    }
+
+    return filled;
+}
+
+// Lowest neighbor of `index` on the filled field, or -1 on the map edge (flows off-map)
+function steepestDescent(filled: Float32Array, width: number, height: number, index: number): number {
+    const cx = index % width, cy = Math.floor(index / width);
+    if (cx === 0 || cy === 0 || cx === width - 1 || cy === height - 1) return -1;
+
+    let best = -1;
+    let bestHeight = filled[index];
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+        const neighbor = (cy + dy) * width + (cx + dx);
+        if (filled[neighbor] < bestHeight) {
+            best = neighbor;
+            bestHeight = filled[neighbor];
+        }
+    }
+    return best;
+}
+
+// Carve rivers into `cells` (row-major, width x height). Returns the number of rivers carved.
+function carveRivers(cells: TerrainType[], heights: Float32Array, width: number, height: number, rivers: RiverSettings, seed: number): number {
+    if (rivers.count <= 0 || width < 3 || height < 3) return 0;
+
+    const filled = fillPits(heights, width, height);
+    const flow = new Float32Array(width * height); // Accumulated upstream river length, 0 = no river
+    const random = createSeededRandom(hashSeed(seed) ^ 0xc2b2ae35);
+
+    const candidates: number[] = [];
+    for (let i = 0; i < cells.length; i++) {
+        if (heights[i] >= rivers.sourceElevation && cells[i] !== rivers.waterType) candidates.push(i);
+    }
+
+    let carved = 0;
+    // Seeded partial Fisher-Yates shuffle so sources are random but reproducible
+    for (let c = 0; c < candidates.length && carved < rivers.count; c++) {
+        const pick = c + Math.floor(random() * (candidates.length - c));
+        [candidates[c], candidates[pick]] = [candidates[pick], candidates[c]];
+        const source = candidates[c];
+        if (flow[source] > 0) continue;
+
+        // Trace downhill until existing water, another river or the map edge
+        const path: number[] = [];
+        let current = source;
+        while (current !== -1 && cells[current] !== rivers.waterType && flow[current] === 0) {
+            path.push(current);
+            current = steepestDescent(filled, width, height, current);
+        }
+        if (path.length < rivers.minLength) continue;
+
+        path.forEach((index, step) => flow[index] = step + 1);
+        // Joining another river adds this river's flow to everything downstream of the confluence
+        while (current !== -1 && flow[current] > 0) {
+            flow[current] += path.length;
+            current = steepestDescent(filled, width, height, current);
+        }
+        carved++;
+    }
+
+    // Paint banks first, then water on top, so banks only survive outside the water
+    const stamp = (index: number, radius: number, type: TerrainType, skip: TerrainType) => {
+        const cx = index % width, cy = Math.floor(index / width);
+        for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                const x = cx + dx, y = cy + dy;
+                if (x < 0 || y < 0 || x >= width || y >= height || dx * dx + dy * dy > radius * radius + radius) continue;
+                if (cells[y * width + x] !== skip) cells[y * width + x] = type;
+            }
+        }
+    };
+    const radiusAt = (index: number) =>
+        Math.min(rivers.maxRadius, Math.floor(Math.log2(1 + flow[index] / RIVER_FLOW_PER_WIDTH)));
+
+    if (rivers.bankType !== null) {
+        for (let i = 0; i < flow.length; i++) {
+            if (flow[i] > 0) stamp(i, radiusAt(i) + 1, rivers.bankType, rivers.waterType);
+        }
+    }
+    for (let i = 0; i < flow.length; i++) {
+        if (flow[i] > 0) stamp(i, radiusAt(i), rivers.waterType, rivers.waterType);
+    }
+
+    return carved;
+}
+
+// --- CLEANUP ---
+// Majority rule: a cell becomes the terrain of at least 5 of its 8 neighbours
+function smoothCells(cells: TerrainType[], width: number, height: number, passes: number) {
+    for (let pass = 0; pass < passes; pass++) {
+        const source = cells.slice();
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const counts = new Map<TerrainType, number>();
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx, ny = y + dy;
+                        if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                        const type = source[ny * width + nx];
+                        counts.set(type, (counts.get(type) ?? 0) + 1);
+                    }
+                }
+                counts.forEach((count, type) => {
+                    if (count >= 5) cells[y * width + x] = type;
+                });
+            }
+        }
+    }
+}
+
+// Merge 4-connected regions smaller than `minSize` into the terrain they border most
+function removeSmallRegions(cells: TerrainType[], width: number, height: number, minSize: number) {
+    const visited = new Uint8Array(width * height);
+
+    for (let start = 0; start < cells.length; start++) {
+        if (visited[start]) continue;
+
+        // Flood fill the region, counting the terrain along its border as we go
+        const type = cells[start];
+        const region: number[] = [start];
+        const borderCounts = new Map<TerrainType, number>();
+        visited[start] = 1;
+        for (let r = 0; r < region.length; r++) {
+            const cx = region[r] % width, cy = Math.floor(region[r] / width);
+            for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+                const nx = cx + dx, ny = cy + dy;
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                const neighbor = ny * width + nx;
+                if (cells[neighbor] !== type) {
+                    borderCounts.set(cells[neighbor], (borderCounts.get(cells[neighbor]) ?? 0) + 1);
+                } else if (!visited[neighbor]) {
+                    visited[neighbor] = 1;
+                    region.push(neighbor);
+                }
+            }
+        }
+
+        if (region.length >= minSize || borderCounts.size === 0) continue;
+        let replacement = type;
+        let best = 0;
+        borderCounts.forEach((count, borderType) => {
+            if (count > best) {
+                best = count;
+                replacement = borderType;
+            }
+        });
+        region.forEach(index => cells[index] = replacement);
+    }
+}
+
+// A 2x2 block whose diagonals are both higher than the other pair draws as role 5 or 10 on
+// every layer in between (two tiles touching at a point). Raising one low corner to the
+// lower of the high pair joins the diagonal without changing any other layer's shape much.
+function resolveDiagonalPinches(cells: TerrainType[], width: number, height: number) {
+    for (let pass = 0; pass < MAX_DIAGONAL_PASSES; pass++) {
+        let changed = false;
+        for (let y = 0; y < height - 1; y++) {
+            for (let x = 0; x < width - 1; x++) {
+                const a = y * width + x, b = a + 1, c = a + width + 1, d = a + width; // a-c and b-d are diagonals
+                if (Math.min(cells[a], cells[c]) > Math.max(cells[b], cells[d])) {
+                    cells[b] = Math.min(cells[a], cells[c]);
+                    changed = true;
+                } else if (Math.min(cells[b], cells[d]) > Math.max(cells[a], cells[c])) {
+                    cells[a] = Math.min(cells[b], cells[d]);
+                    changed = true;
+                }
+            }
+        }
+        if (!changed) break;
+    }
+}
+
+export function cleanUpCells(cells: TerrainType[], width: number, height: number, cleanup: CleanupSettings) {
+    smoothCells(cells, width, height, cleanup.smoothingPasses);
+    if (cleanup.minRegionSize > 1) removeSmallRegions(cells, width, height, cleanup.minRegionSize);
+    if (cleanup.resolveDiagonals) resolveDiagonalPinches(cells, width, height);
+}
+
+export function isCleanupEnabled(cleanup: CleanupSettings): boolean {
+    return cleanup.smoothingPasses > 0 || cleanup.minRegionSize > 1 || cleanup.resolveDiagonals;
+}
+
+// --- GENERATION ---
+export interface GenerationResult {
+    width: number;
+    height: number;
+    seed: number;        // Seed actually used (a random one when config.seed is null)
+    cells: Uint16Array;  // Row-major terrain type ids (y * width + x)
+    heights: Float32Array; // Eroded elevation (-1 to 1) the cells were classified from
+}
+
+// Worker protocol: the main thread posts a GenerationRequest; the worker answers with any
+// number of progress messages followed by exactly one 'done' or 'error' for the same id
+export interface GenerationRequest {
+    type: 'map';
+    id: number;
+    config: MapConfig;
+    width: number;
+    height: number;
+}
+
+export type GenerationMessage =
+    | { type: 'progress'; id: number; stage: string; progress: number } // progress: 0-1 over the whole job
+    | { type: 'done'; id: number; result: GenerationResult }
+    | { type: 'error'; id: number; message: string };
+
+// Infinite worlds stream chunks from a worker of their own: one 'world' request sets up the sampler,
+// then every 'chunk' request is answered (in order) with one ChunkMessage for the same coordinates
+export type ChunkRequest =
+    | { type: 'world'; config: MapConfig; seed: number }
+    | { type: 'chunk'; chunkX: number; chunkY: number; size: number };
+
+export type ChunkMessage =
+    | { type: 'chunk'; chunkX: number; chunkY: number; cells: Uint16Array; heights: Float32Array }
+    | { type: 'chunk-error'; chunkX: number; chunkY: number; message: string };
+
+// Height/moisture sampling and cell classification shared by whole-map and streamed chunk generation.
+// Everything here is a pure function of world coordinates, so chunks generated separately line up seamlessly
+export interface TerrainSampler {
+    seed: number;
+    sample(x: number, y: number): [number, number]; // [height, moisture] before falloff and erosion
+    classify(height: number, moisture: number): TerrainType;
+}
+
+export function createTerrainSampler(config: MapConfig, seed: number): TerrainSampler {
+    // The seed drives the simplex permutation tables, so the same seed always gives the same map
+    const noises = createLayerNoises(seed, config.noiseLayers.length);
+    const warpNoises = createWarpNoises(seed, config.warp.iterations);
+    const biome = config.biome;
+    const moistureNoise = biome.enabled ? createMoistureNoise(seed) : null;
+    const moistureLayers: NoiseLayer[] = [{ frequency: biome.moistureFrequency, amplitude: 1, mode: NoiseMode.Standard }];
+    const knownTypes = new Set(config.buckets.map(b => b.terrainType));
+
+    // Sort buckets by threshold (highest to lowest) for easier checking
+    const sortedBuckets = [...config.buckets].sort((a, b) => b.threshold - a.threshold);
+
+    return {
+        seed,
+        sample(x, y) {
+            // Get fractal noise value between -1 and 1, sampled at the domain-warped position
+            const [wx, wy] = warpCoordinates(warpNoises, config.warp, x, y);
+            const height = sampleFractalNoise(noises, config.noiseLayers, config.fractal, wx, wy);
+            const moisture = moistureNoise ? sampleFractalNoise([moistureNoise], moistureLayers, config.fractal, wx, wy) : 0;
+            return [height, moisture];
+        },
+        classify(height, moisture) {
+            // Find the appropriate bucket - check from highest threshold to lowest
+            let type = sortedBuckets[sortedBuckets.length - 1].terrainType; // Default to lowest bucket
+            if (moistureNoise) {
+                // Biome mode: look up elevation x moisture in the table instead of thresholds
+                const biomeType = biome.table[findBand(biome.elevationBreaks, height)]?.[findBand(biome.moistureBreaks, moisture)];
+                if (biomeType !== undefined && knownTypes.has(biomeType)) type = biomeType;
+            } else {
+                for (const bucket of sortedBuckets) {
+                    if (height >= bucket.threshold) {
+                        type = bucket.terrainType;
+                        break;
+                    }
+                }
+            }
+            return type;
+        }
+    };
+}
+
+// Generate a width x height map. onProgress receives the current stage and overall progress (0-1).
+export function generateMap(config: MapConfig, width: number, height: number,
+    onProgress: (stage: string, progress: number) => void = () => {}): GenerationResult {
+    const seed = config.seed !== null ? config.seed : Math.floor(Math.random() * 1000000);
+    const sampler = createTerrainSampler(config, seed);
+    const heights = new Float32Array(width * height);
+    const moisture = new Float32Array(width * height);
+    const cells: TerrainType[] = new Array(width * height);
+
+    // Pass 1: continuous height field (and moisture in biome mode)
+    // Progress budget: noise 0-50%, erosion 50-85%, classification/cleanup/rivers 85-100%
+    const rowsPerReport = Math.max(1, Math.floor(height / 20));
+    for (let y = 0; y < height; y++) {
+        if (y % rowsPerReport === 0) onProgress('Sampling noise', 0.5 * y / height);
+        for (let x = 0; x < width; x++) {
+            const [noise, wetness] = sampler.sample(x, y);
+
+            // Falloff scales height above the floor (-1), so masked-out areas sink to the lowest bucket
+            heights[y * width + x] = (noise + 1) * sampleFalloff(config.falloff, x, y, width, height) - 1;
+            moisture[y * width + x] = wetness;
+        }
+    }
+
+    // Pass 2: erosion reshapes the height field before anything is classified
+    erodeHydraulic(heights, width, height, config.erosion, seed, fraction => onProgress('Hydraulic erosion', 0.5 + 0.3 * fraction));
+    onProgress('Thermal erosion', 0.8);
+    erodeThermal(heights, width, height, config.erosion);
+
+    // Pass 3: classify cells into buckets
+    onProgress('Classifying terrain', 0.85);
+    for (let i = 0; i < cells.length; i++) {
+        cells[i] = sampler.classify(heights[i], moisture[i]);
+    }
+
+    // Cleanup runs before rivers so smoothing can't erase thin rivers
+    onProgress('Cleaning up', 0.9);
+    cleanUpCells(cells, width, height, config.cleanup);
+
+    // Rivers are ordinary cells of the water bucket, so the dual-grid transitions draw their banks
+    onProgress('Carving rivers', 0.95);
+    carveRivers(cells, heights, width, height, config.rivers, seed);
+
+    onProgress('Done', 1);
+    return { width, height, seed, cells: Uint16Array.from(cells), heights };
+}
+
+// Generate one square chunk of an infinite world at world cell (originX, originY).
+// Only noise, warp and biomes apply: falloff, erosion, cleanup and rivers need the whole map
+export function generateChunk(sampler: TerrainSampler, originX: number, originY: number, size: number): { cells: Uint16Array; heights: Float32Array } {
+    const cells = new Uint16Array(size * size);
+    const heights = new Float32Array(size * size);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const [height, moisture] = sampler.sample(originX + x, originY + y);
+            heights[y * size + x] = height;
+            cells[y * size + x] = sampler.classify(height, moisture);
+        }
+    }
+    return { cells, heights };
+}
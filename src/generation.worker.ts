@@ -0,0 +1,43 @@
+import {
+    generateMap, createTerrainSampler, generateChunk,
+    type GenerationMessage, type GenerationRequest, type ChunkMessage, type ChunkRequest, type TerrainSampler
+} from './generation';
+
+// Runs generateMap off the main thread. One job at a time: the main thread cancels a stale
+// job by terminating this worker, so there is no cancellation message to handle here.
+// Infinite worlds use a separate instance of this worker for their chunk requests.
+let sampler: TerrainSampler | null = null; // Set by the 'world' request of a chunk-streaming worker
+
+self.onmessage = (e: MessageEvent<GenerationRequest | ChunkRequest>) => {
+    const request = e.data;
+    if (request.type === 'map') {
+        generateWholeMap(request);
+        return;
+    }
+    if (request.type === 'world') {
+        sampler = createTerrainSampler(request.config, request.seed);
+        return;
+    }
+
+    const { chunkX, chunkY, size } = request;
+    const post = (message: ChunkMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+    try {
+        if (!sampler) throw new Error('Chunk requested before the world was set up');
+        const { cells, heights } = generateChunk(sampler, chunkX * size, chunkY * size, size);
+        post({ type: 'chunk', chunkX, chunkY, cells, heights }, [cells.buffer, heights.buffer]);
+    } catch (err) {
+        post({ type: 'chunk-error', chunkX, chunkY, message: err instanceof Error ? err.message : 'Unknown chunk generation error' });
+    }
+};
+
+function generateWholeMap({ id, config, width, height }: GenerationRequest) {
+    const post = (message: GenerationMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+    try {
+        const result = generateMap(config, width, height, (stage, progress) => post({ type: 'progress', id, stage, progress }));
+        // Hand the buffers over instead of copying them (a 500x500 map is ~1.5 MB)
+        post({ type: 'done', id, result }, [result.cells.buffer, result.heights.buffer]);
+    } catch (err) {
+        post({ type: 'error', id, message: err instanceof Error ? err.message : 'Unknown generation error' });
+    }
+}
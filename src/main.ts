@@ -1,4 +1,11 @@
-import { createNoise2D } from 'simplex-noise';
+import {
+    TerrainType, NoiseMode, FalloffShape, cloneBiome, cleanUpCells, isCleanupEnabled,
+    DEFAULT_FRACTAL, DEFAULT_WARP, DEFAULT_FALLOFF, DEFAULT_EROSION, DEFAULT_CLEANUP, DEFAULT_RIVERS, DEFAULT_BIOME,
+    type TerrainBucket, type NoiseLayer, type FractalSettings, type WarpSettings, type BiomeSettings, type FalloffMask,
+    type FalloffSettings, type RiverSettings, type ErosionSettings, type CleanupSettings, type MapConfig,
+    type GenerationResult, type GenerationMessage, type GenerationRequest, type ChunkMessage, type ChunkRequest
+} from './generation';
+import { synthesizeWangAtlas, DEFAULT_ATLAS_GENERATOR, type PixelImage, type AtlasGeneratorSettings } from './atlas';
 
 // --- CONFIGURATION ---
 // TILE SIZE CONFIGURATION
@@ -9,73 +16,292 @@ const TILE_WIDTH = 64;   // Width of the tile in pixels (default: 64 for standar
 const TILE_HEIGHT = 32;  // Height (usually half width for standard ISO) (default: 32)
 const GRID_SIZE = 100;   // Size of the data grid (100x100)
 
+// CHUNK CACHE CONFIGURATION
+// The map is rendered in CHUNK_SIZE x CHUNK_SIZE blocks of dual-grid tiles into offscreen
+// canvases that are reused every frame until a cell in (or bordering) the chunk changes.
+// Chunks are cached at a power-of-two resolution near the zoom level (LOD), so the cache is
+// bounded by total pixels rather than chunk count (48M px ~ 192 MB of canvas memory).
+const CHUNK_SIZE = 16;
+const CHUNK_CACHE_PIXEL_BUDGET = 48 * 1024 * 1024;
+const MAX_CHUNK_LOD = 2; // Zoom beyond this upscales 2x chunks instead of allocating larger canvases
+const BULK_INVALIDATE_CELLS = 4 * CHUNK_SIZE * CHUNK_SIZE; // Bulk writes past this redraw everything at once
+
+// INFINITE WORLD CONFIGURATION
+// In infinite mode cells live in WORLD_CHUNK_SIZE x WORLD_CHUNK_SIZE chunks generated from the
+// seed in a worker as the camera reaches them. Untouched chunks are evicted LRU-first (they
+// regenerate identically); chunks with painted cells are kept so edits are never lost.
+const WORLD_CHUNK_SIZE = 64;
+const WORLD_CHUNK_CACHE_LIMIT = 256; // ~1M cells (~6 MB of cells + heights)
+const MINIMAP_WORLD_WINDOW = 128;    // Cells shown across the minimap around the camera
+
+// ZOOM CONFIGURATION
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4.0;
+const ZOOM_STEP = 1.15; // Multiplier per wheel notch / keypress
+
 // TEXTURE ATLAS CONFIGURATION
 // Custom Wang tile textures are expected to be in atlas format:
 // - 15 tile variants (roles 1-15) arranged in rows
 // - Default layout: 8 tiles per row (512px wide for 64px tiles)
 // - 2 rows total (64px tall for 32px tiles)
-// FUTURE: Support for custom atlas layouts and tile counts
-
-const noise2D = createNoise2D();
+// Atlases with other tile sizes, column counts, margins or spacing are described by an
+// accompanying Wang JSON (see WangTileData); their tiles are scaled to TILE_WIDTH x TILE_HEIGHT
 
 // --- TYPES ---
-enum TerrainType {
-    Water = 0,
-    Sand = 1,
-    Dirt = 2,
-    Grass = 3
-}
-
 enum RenderMode {
     IsometricTextured = 0,
     IsometricColored = 1,
     OrthographicColored = 2
 }
 
-interface TerrainBucket {
+enum EditTool {
+    Pan = 0,      // Drag pans the camera
+    Inspect = 1,  // Drag pans, click opens the tile debug panel
+    Paint = 2     // Drag paints the selected terrain into world cells
+}
+
+enum BrushShape {
+    Square = 0,
+    Circle = 1,
+    Diamond = 2
+}
+
+// The MapConfig fields edited in the Map Generation section of the config panel
+type GenerationSettings = Pick<MapConfig, 'noiseLayers' | 'fractal' | 'warp' | 'falloff' | 'erosion' | 'cleanup' | 'rivers'>;
+const FALLOFF_MASK_MAX_SIZE = 128;
+
+// --- PROJECT FILE TYPES ---
+// Bump PROJECT_SCHEMA_VERSION whenever the saved shape changes and add a migration
+// from the previous version to PROJECT_MIGRATIONS
+const PROJECT_FILE_FORMAT = 'dual-grid-project';
+const PROJECT_SCHEMA_VERSION = 11;
+
+interface ProjectBucket {
     name: string;
     color: string;
-    threshold: number; // Minimum noise value for this terrain
-    terrainType: TerrainType; // Maps to asset loading if available
-    customTexture?: File; // Optional custom texture file
-    customTextureLoaded?: boolean; // Track if custom texture is loaded
+    threshold: number;
+    terrainType: number;
+    customTextureDataUrl?: string; // Embedded PNG (data URL) for custom Wang textures
+    customWangJson?: string;       // Wang JSON text for the custom texture (built-in layout when absent)
+    texturePack?: string;          // Asset manifest pack id (when no custom texture is embedded)
 }
 
-interface MapConfig {
-    scale: number;
-    seed: number | null;
-    size: number;
-    buckets: TerrainBucket[];
+interface ProjectFile {
+    format: typeof PROJECT_FILE_FORMAT;
+    version: number;
+    savedAt: string;
+    grid: {
+        width: number;
+        height: number;
+        cells: number[]; // Row-major terrain type ids (y * width + x)
+        seed: number;    // v10: seed the map was generated with (picks the tile variants)
+        heights: number[] | null; // v11: row-major elevation the cells were generated from (null = unknown)
+    };
+    config: {
+        noiseLayers: NoiseLayer[]; // v2: replaces scaleMacro/scaleMid/scaleMicro
+        fractal: FractalSettings;  // v2
+        warp: WarpSettings;        // v3
+        biome: BiomeSettings;      // v4
+        falloff: FalloffSettings;  // v5
+        rivers: RiverSettings;     // v6
+        erosion: ErosionSettings;  // v7
+        cleanup: CleanupSettings;  // v8
+        seed: number | null;
+        width: number;             // v9: replaces size (maps no longer have to be square)
+        height: number;            // v9
+        buckets: ProjectBucket[];
+    };
+    view: {
+        renderMode: RenderMode;
+        cameraOffsetX: number;
+        cameraOffsetY: number;
+        zoomLevel: number;
+        showBaseLayer: boolean;
+        showTransitionLayer: boolean;
+        showWorldGrid: boolean;
+        showDualGrid: boolean;
+    };
 }
 
 interface WangTileMember {
     id: number;
     role: number;
+    weight?: number; // Relative chance among the tiles listed for the same role (default 1)
 }
 
 interface WangTileData {
     tile_width: number;
     tile_height: number;
+    columns?: number; // Tiles per atlas row (default: as many as fit)
+    margin?: number;  // Pixels around the atlas edge (default 0)
+    spacing?: number; // Pixels between neighbouring tiles (default 0)
     wang_sets: Array<{ members: WangTileMember[] }>;
 }
 
+// Where the tiles sit in an atlas image (same conventions as a Tiled tileset)
+interface AtlasLayout {
+    tileWidth: number;
+    tileHeight: number;
+    columns: number;
+    margin: number;
+    spacing: number;
+    tileCount: number;
+}
+
+// One of the tiles that can be drawn for a role; variants are picked per tile by pickTileVariant
+interface TileVariant {
+    id: number;
+    weight: number;
+}
+
 interface TerrainAssets {
     image: HTMLImageElement;
     wangData: WangTileData;
-    roleToId: Map<number, number>;
+    roleToId: Map<number, number>;          // First tile listed for each role (the role's main tile)
+    roleVariants: Map<number, TileVariant[]>; // Every tile listed for each role, in listed order
+    layout: AtlasLayout;
+    missingRoles: number[]; // Roles 1-15 without a tile - drawn as flat color and listed in the config panel
+}
+
+// Terrain pack entry in public/terrain-manifest.json (paths are relative to public/)
+interface TerrainPack {
+    id: string;    // Stable key stored in bucket configs and project files
+    name: string;
+    atlas: string; // Wang tile atlas PNG
+    wang: string;  // Wang data JSON (Tiled export)
+    color: string; // Suggested bucket color
+}
+
+interface TerrainManifest {
+    packs: TerrainPack[];
 }
 
+const TERRAIN_MANIFEST_URL = '/terrain-manifest.json';
+const CUSTOM_TEXTURE_OPTION = '__upload'; // Texture picker value for an uploaded texture (not a pack id)
+
 const terrainAssets: Map<TerrainType, TerrainAssets> = new Map();
+// Built-in assets loaded from public/, used to restore terrains when custom textures are dropped
+const defaultTerrainAssets: Map<TerrainType, TerrainAssets> = new Map();
+// Every pack in the manifest that loaded, keyed by pack id (in manifest order)
+const terrainPacks: Map<string, { pack: TerrainPack; assets: TerrainAssets }> = new Map();
 let assetsLoaded = false;
 
 // Default terrain buckets - sorted by threshold (lowest to highest)
 const DEFAULT_BUCKETS: TerrainBucket[] = [
-    { name: 'Shallow Water', color: '#225588', threshold: -1.0, terrainType: TerrainType.Water },
-    { name: 'Sand', color: '#eebb44', threshold: -0.2, terrainType: TerrainType.Sand },
-    { name: 'Dirt', color: '#885533', threshold: 0.0, terrainType: TerrainType.Dirt },
-    { name: 'Grass', color: '#44aa44', threshold: 0.3, terrainType: TerrainType.Grass }
+    { name: 'Shallow Water', color: '#225588', threshold: -1.0, terrainType: TerrainType.Water, texturePack: 'shallow-water' },
+    { name: 'Sand', color: '#eebb44', threshold: -0.2, terrainType: TerrainType.Sand, texturePack: 'sand' },
+    { name: 'Dirt', color: '#885533', threshold: 0.0, terrainType: TerrainType.Dirt, texturePack: 'dirt' },
+    { name: 'Grass', color: '#44aa44', threshold: 0.3, terrainType: TerrainType.Grass, texturePack: 'grass' }
 ];
 
+// --- TILED EXPORT TYPES ---
+// Subset of the Tiled JSON map format (https://doc.mapeditor.org/en/stable/reference/json-map-format/)
+// that we emit; the TMX writer serializes the same structure as XML
+interface TiledProperty {
+    name: string;
+    type: 'string' | 'int' | 'float' | 'bool';
+    value: string | number | boolean;
+}
+
+interface TiledWangSet {
+    name: string;
+    type: 'corner';
+    tile: number;
+    colors: Array<{ name: string; color: string; tile: number; probability: number }>;
+    wangtiles: Array<{ tileid: number; wangid: number[] }>;
+}
+
+interface TiledTileset {
+    firstgid: number;
+    name: string;
+    tilewidth: number;
+    tileheight: number;
+    tilecount: number;
+    columns: number;
+    image: string;
+    imagewidth: number;
+    imageheight: number;
+    margin: number;
+    spacing: number;
+    tiles?: Array<{ id: number; probability: number }>; // Variant weights (Tiled picks by probability when painting)
+    wangsets: TiledWangSet[];
+}
+
+type TiledLayer =
+    | { id: number; name: string; type: 'tilelayer'; width: number; height: number; x: 0; y: 0; opacity: number; visible: boolean; data: number[] }
+    | { id: number; name: string; type: 'objectgroup'; x: 0; y: 0; opacity: number; visible: boolean; draworder: 'topdown'; objects: []; properties: TiledProperty[] };
+
+interface TiledMap {
+    type: 'map';
+    version: string;
+    tiledversion: string;
+    orientation: 'isometric';
+    renderorder: 'right-down';
+    width: number;
+    height: number;
+    tilewidth: number;
+    tileheight: number;
+    infinite: false;
+    nextlayerid: number;
+    nextobjectid: number;
+    properties: TiledProperty[];
+    tilesets: TiledTileset[];
+    layers: TiledLayer[];
+}
+
+interface TiledExport {
+    map: TiledMap;
+    images: Array<{ fileName: string; image: HTMLImageElement }>; // Atlases referenced by the tilesets
+    missingTerrains: TerrainType[]; // Terrains without loaded textures (left empty in the tile layers)
+}
+
+// --- RENDER DATA EXPORT TYPES ---
+// Per dual-grid tile render instructions (what render() draws, without the pixels).
+// All arrays are row-major over the (width-1) x (height-1) dual grid; tile id -1 = nothing to draw.
+interface RenderDataLayer {
+    terrain: TerrainType;
+    roles: Uint8Array;   // Wang corner bitmask 0-15 (0 and 15 are not drawn in transition layers)
+    tileIds: Int16Array; // Atlas tile id for the role, -1 if not drawn or unmapped
+}
+
+interface RenderData {
+    width: number;  // Dual-grid tiles across
+    height: number; // Dual-grid tiles down
+    tileWidth: number;
+    tileHeight: number;
+    baseTerrain: Uint16Array; // Lowest corner terrain, drawn as a role-15 tile
+    baseTileIds: Int16Array;
+    layers: RenderDataLayer[]; // In draw order (same as getTransitionLayerOrder)
+}
+
+const RENDER_DATA_FORMAT = 'dual-grid-render-data';
+const RENDER_DATA_VERSION = 1;
+const RENDER_DATA_MAGIC = 'DGRD';
+
+// Visible tiles for the current camera: rows minY..maxY, each row rowStart(y)..rowEnd(y) inclusive
+interface VisibleTileRange {
+    minY: number;
+    maxY: number;
+    rowStart: (y: number) => number;
+    rowEnd: (y: number) => number;
+}
+
+// A cached chunk image, valid while its versions match the grid's current ones
+interface RenderChunk {
+    canvas: HTMLCanvasElement;
+    chunkVersion: number;
+    contentVersion: number;
+    pixels: number; // canvas width * height, counted against CHUNK_CACHE_PIXEL_BUDGET
+}
+
+// Grid area (in cells) drawn on the minimap
+interface MinimapWindow {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
 // --- DEBUG SYSTEM ---
 interface TileDebugInfo {
     gridX: number;
@@ -86,6 +312,7 @@ interface TileDebugInfo {
         bl: TerrainType;  // Bottom visual corner (South)
         br: TerrainType;  // Left visual corner (West)
     };
+    elevations: { tl: number; tr: number; bl: number; br: number } | null; // Height field at each corner (null when unknown)
     baseLayer: {
         terrain: TerrainType;
         role: number;
@@ -103,77 +330,253 @@ interface TileDebugInfo {
 // --- ASSET LOADING FUNCTIONS ---
 async function loadTerrainAssets(): Promise<void> {
     console.log("Starting to load terrain assets...");
-    // Derive terrain names from DEFAULT_BUCKETS to support dynamic terrain types
-    const promises = DEFAULT_BUCKETS.map(async (bucket) => {
-        // Convert bucket name to folder name (lowercase with spaces as hyphens)
-        const folderName = bucket.name.toLowerCase().replace(/\s+/g, '-');
-        const terrainType = bucket.terrainType;
-        console.log(`Loading ${folderName}...`);
-
-        // Load image
-        const img = new Image();
-        const imgPromise = new Promise<void>((resolve, reject) => {
-            img.onload = () => {
-                console.log(`${folderName}.png loaded successfully`);
-                resolve();
-            };
-            img.onerror = (e) => {
-                console.error(`Failed to load ${folderName}.png:`, e);
-                reject(e);
-            };
-            img.src = `/${folderName}/${folderName}.png`;
-        });
+    const response = await fetch(TERRAIN_MANIFEST_URL);
+    if (!response.ok) {
+        throw new Error(`Failed to load ${TERRAIN_MANIFEST_URL} (${response.status})`);
+    }
+    const manifest: TerrainManifest = await response.json();
+    console.log(`Terrain manifest lists ${manifest.packs.length} packs`);
+
+    // A broken pack is left out of the texture picker instead of blocking the others
+    const loaded = await Promise.all(manifest.packs.map(async (pack) => {
+        try {
+            return { pack, assets: await loadTerrainPack(pack) };
+        } catch (err) {
+            console.error(`Failed to load terrain pack ${pack.id}:`, err);
+            return null;
+        }
+    }));
+    loaded.forEach(entry => {
+        if (entry) terrainPacks.set(entry.pack.id, entry);
+    });
 
-        // Load wang data
-        const response = await fetch(`/${folderName}/${folderName}.txt`);
-        const wangData: WangTileData = await response.json();
-        console.log(`${folderName}.txt loaded:`, wangData);
+    // Built-in buckets start out with their own packs
+    DEFAULT_BUCKETS.forEach(bucket => {
+        const entry = bucket.texturePack ? terrainPacks.get(bucket.texturePack) : undefined;
+        if (!entry) {
+            console.warn(`No texture pack loaded for ${bucket.name}`);
+            return;
+        }
+        terrainAssets.set(bucket.terrainType, entry.assets);
+        defaultTerrainAssets.set(bucket.terrainType, entry.assets);
+        console.log(`${entry.pack.id} assets stored for terrain type ${bucket.terrainType}`);
+    });
 
-        await imgPromise;
+    assetsLoaded = true;
+    console.log("All assets loaded! assetsLoaded =", assetsLoaded);
+}
 
-        // Build role-to-id lookup map
-        const roleToId = new Map<number, number>();
-        if (wangData.wang_sets && wangData.wang_sets[0]) {
-            wangData.wang_sets[0].members.forEach(member => {
-                roleToId.set(member.role, member.id);
-            });
+// Load one manifest pack: atlas image plus its Wang data
+async function loadTerrainPack(pack: TerrainPack): Promise<TerrainAssets> {
+    console.log(`Loading ${pack.id}...`);
+
+    // Load image
+    const img = new Image();
+    const imgPromise = new Promise<void>((resolve, reject) => {
+        img.onload = () => {
+            console.log(`${pack.atlas} loaded successfully`);
+            resolve();
+        };
+        img.onerror = () => reject(new Error(`Failed to load ${pack.atlas}`));
+        img.src = `/${pack.atlas}`;
+    });
+
+    // Load wang data
+    const response = await fetch(`/${pack.wang}`);
+    if (!response.ok) {
+        throw new Error(`Failed to load ${pack.wang} (${response.status})`);
+    }
+    const wangData = parseWangData(await response.json(), pack.wang);
+    console.log(`${pack.wang} loaded:`, wangData);
+
+    await imgPromise;
+    return buildTerrainAssets(img, wangData, pack.atlas);
+}
+
+// Check the shape of Wang JSON (a built-in .txt or an upload) before anything is drawn from it
+function parseWangData(json: unknown, source: string): WangTileData {
+    const data = json as Partial<WangTileData> | null;
+    const isCount = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+    if (!data || typeof data !== 'object' || !isCount(data.tile_width, 1) || !isCount(data.tile_height, 1)) {
+        throw new Error(`${source}: tile_width and tile_height must be positive integers`);
+    }
+    if ((data.columns !== undefined && !isCount(data.columns, 1)) ||
+        (data.margin !== undefined && !isCount(data.margin, 0)) ||
+        (data.spacing !== undefined && !isCount(data.spacing, 0))) {
+        throw new Error(`${source}: columns must be a positive integer, margin and spacing non-negative integers`);
+    }
+    const members = data.wang_sets?.[0]?.members;
+    if (!Array.isArray(members) || !members.every(m => m && isCount(m.id, 0) && isCount(m.role, 0) && m.role <= 15)) {
+        throw new Error(`${source}: wang_sets[0].members must be a list of { id, role } with roles 0-15`);
+    }
+    if (!members.every(m => m.weight === undefined || (typeof m.weight === 'number' && isFinite(m.weight) && m.weight > 0))) {
+        throw new Error(`${source}: member weights must be positive numbers`);
+    }
+    return data as WangTileData;
+}
+
+// Work out the atlas layout and role lookup for a loaded image. Tile ids outside the atlas are
+// errors; roles without a tile are allowed but reported through missingRoles
+function buildTerrainAssets(image: HTMLImageElement, wangData: WangTileData, source: string): TerrainAssets {
+    const margin = wangData.margin ?? 0;
+    const spacing = wangData.spacing ?? 0;
+    const tileWidth = wangData.tile_width;
+    const tileHeight = wangData.tile_height;
+    const fitColumns = Math.floor((image.naturalWidth - 2 * margin + spacing) / (tileWidth + spacing));
+    const rows = Math.floor((image.naturalHeight - 2 * margin + spacing) / (tileHeight + spacing));
+    const columns = wangData.columns ?? fitColumns;
+    if (columns < 1 || rows < 1) {
+        throw new Error(`${source}: the ${image.naturalWidth}x${image.naturalHeight} image has no room for a ${tileWidth}x${tileHeight} tile`);
+    }
+    if (columns > fitColumns) {
+        throw new Error(`${source}: columns is ${columns}, but the ${image.naturalWidth}x${image.naturalHeight} image only fits ${fitColumns} ${tileWidth}px tiles per row`);
+    }
+    const layout: AtlasLayout = { tileWidth, tileHeight, columns, margin, spacing, tileCount: columns * rows };
+
+    // Build role lookups - a role listed more than once gets weighted variants
+    const roleToId = new Map<number, number>();
+    const roleVariants = new Map<number, TileVariant[]>();
+    wangData.wang_sets[0].members.forEach(member => {
+        if (member.role === 0) return; // Empty tile - never drawn
+        if (member.id >= layout.tileCount) {
+            throw new Error(`${source}: tile ${member.id} (role ${member.role}) is outside the ${columns}x${rows} atlas`);
         }
+        if (!roleToId.has(member.role)) roleToId.set(member.role, member.id);
+        roleVariants.set(member.role, [...(roleVariants.get(member.role) ?? []), { id: member.id, weight: member.weight ?? 1 }]);
+    });
 
-        terrainAssets.set(terrainType, {
-            image: img,
-            wangData,
-            roleToId
-        });
+    const missingRoles: number[] = [];
+    for (let role = 1; role <= 15; role++) {
+        if (!roleToId.has(role)) missingRoles.push(role);
+    }
+
+    return {
+        image,
+        wangData,
+        roleToId,
+        roleVariants,
+        layout,
+        missingRoles
+    };
+}
+
+// Atlas tile to draw for a role at dual-grid tile (x, y). Roles with several tiles pick one by weight
+// from a hash of the coordinates and map seed, so the choice is the same every frame, export and reload
+function pickTileVariant(assets: TerrainAssets, role: number, x: number, y: number, seed: number): number | undefined {
+    const variants = assets.roleVariants.get(role);
+    if (!variants || variants.length < 2) return variants?.[0].id;
+
+    let hash = Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ Math.imul(Math.floor(seed), 0x9e3779b1) ^ Math.imul(role, 0x85ebca6b);
+    hash = Math.imul(hash ^ (hash >>> 15), 0x2c1b3c6d);
+    hash = Math.imul(hash ^ (hash >>> 12), 0x297a2d39);
+    hash ^= hash >>> 15;
+
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    let pick = ((hash >>> 0) / 4294967296) * totalWeight;
+    for (const variant of variants) {
+        pick -= variant.weight;
+        if (pick < 0) return variant.id;
+    }
+    return variants[variants.length - 1].id;
+}
+
+// Whether the atlas image can be drawn yet (a failed load is also `complete`, with no pixels)
+function isAtlasReady(assets: TerrainAssets): boolean {
+    return assets.image.complete && assets.image.naturalWidth > 0;
+}
+
+// Top-left pixel of a tile in its atlas
+function getTileSource(layout: AtlasLayout, tileId: number): { srcX: number; srcY: number } {
+    const row = Math.floor(tileId / layout.columns);
+    const col = tileId % layout.columns;
+    return {
+        srcX: layout.margin + col * (layout.tileWidth + layout.spacing),
+        srcY: layout.margin + row * (layout.tileHeight + layout.spacing)
+    };
+}
 
-        console.log(`${folderName} assets stored for terrain type ${terrainType}`);
+// Point each bucket's terrain at its manifest pack (uploaded textures are left as they are)
+function applyTexturePacks(buckets: TerrainBucket[]) {
+    buckets.forEach(bucket => {
+        const entry = !bucket.customTextureLoaded && bucket.texturePack ? terrainPacks.get(bucket.texturePack) : undefined;
+        if (entry) terrainAssets.set(bucket.terrainType, entry.assets);
     });
+}
 
-    await Promise.all(promises);
-    assetsLoaded = true;
-    console.log("All assets loaded! assetsLoaded =", assetsLoaded);
+// Role -> tile id mapping shared by all built-in atlases (water.txt, sand.txt, dirt.txt, grass.txt),
+// assumed for uploads that come without Wang JSON
+const STANDARD_WANG_MEMBERS: WangTileMember[] = [
+    { id: 0, role: 4 },
+    { id: 1, role: 6 },
+    { id: 2, role: 2 },
+    { id: 3, role: 12 },
+    { id: 4, role: 15 },
+    { id: 5, role: 3 },
+    { id: 6, role: 8 },
+    { id: 7, role: 9 },
+    { id: 8, role: 1 },
+    { id: 9, role: 11 },
+    { id: 10, role: 13 },
+    { id: 11, role: 5 },
+    { id: 12, role: 7 },
+    { id: 13, role: 14 },
+    { id: 14, role: 10 }
+];
+
+function readFileAs(file: File, format: 'dataUrl' | 'text'): Promise<string> {
+    const reader = new FileReader();
+    const readerPromise = new Promise<string>((resolve, reject) => {
+        reader.onload = (e) => resolve(e.target?.result as string);
+        reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    });
+    if (format === 'dataUrl') reader.readAsDataURL(file);
+    else reader.readAsText(file);
+    return readerPromise;
 }
 
-// Load custom texture from a File object
-async function loadCustomTexture(file: File, terrainType: TerrainType): Promise<void> {
-    console.log(`Loading custom texture for terrain ${terrainType}:`, file.name);
+// Load a custom texture from the files picked for a bucket: the atlas image plus, optionally,
+// its Wang JSON (tile size, layout and role -> tile id mapping)
+// Returns the data URL and JSON text so callers can keep them (e.g. for project saving)
+async function loadCustomTexture(files: File[], terrainType: TerrainType): Promise<{ dataUrl: string; wangJson?: string; assets: TerrainAssets }> {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    const wangFiles = files.filter(file => !file.type.startsWith('image/'));
+    if (imageFiles.length !== 1 || wangFiles.length > 1) {
+        throw new Error('Select one atlas image (PNG recommended), optionally together with one Wang JSON file');
+    }
+    console.log(`Loading custom texture for terrain ${terrainType}:`, files.map(file => file.name).join(', '));
 
-    // Validate file is a PNG
-    if (!file.type.startsWith('image/')) {
-        throw new Error('File must be an image (PNG recommended)');
+    const dataUrl = await readFileAs(imageFiles[0], 'dataUrl');
+    const wangJson = wangFiles.length > 0 ? await readFileAs(wangFiles[0], 'text') : undefined;
+    const assets = await createCustomTextureAssets(dataUrl, wangJson, wangFiles[0]?.name);
+    terrainAssets.set(terrainType, assets);
+    console.log(`Custom texture loaded for terrain ${terrainType}`);
+    return { dataUrl, wangJson, assets };
+}
+
+// Build terrain assets from a custom texture data URL (uploaded file or embedded in a project file)
+// Without Wang JSON the atlas must use the built-in layout (64x32 tiles, STANDARD_WANG_MEMBERS)
+async function createCustomTextureAssets(dataUrl: string, wangJson?: string, wangSource: string = 'Wang JSON'): Promise<TerrainAssets> {
+    let wangData: WangTileData = {
+        tile_width: TILE_WIDTH,
+        tile_height: TILE_HEIGHT,
+        wang_sets: [{ members: STANDARD_WANG_MEMBERS }]
+    };
+    if (wangJson !== undefined) {
+        let json: unknown;
+        try {
+            json = JSON.parse(wangJson);
+        } catch {
+            throw new Error(`${wangSource} is not valid JSON`);
+        }
+        wangData = parseWangData(json, wangSource);
     }
 
-    // Create image from file
+    // Create image from data URL
     const img = new Image();
     const imgPromise = new Promise<void>((resolve, reject) => {
         img.onload = () => {
-            console.log(`Custom texture loaded: ${file.name} (${img.width}x${img.height})`);
-
-            // Validate dimensions (should be multiple of tile size for proper atlas)
-            // For now, we assume 64x32 isometric tiles in an atlas (8 tiles per row, 2 rows = 512x64)
-            if (img.width % TILE_WIDTH !== 0 || img.height % TILE_HEIGHT !== 0) {
-                console.warn(`Custom texture dimensions (${img.width}x${img.height}) may not align with tile size (${TILE_WIDTH}x${TILE_HEIGHT})`);
-            }
-
+            console.log(`Custom texture loaded (${img.width}x${img.height})`);
             resolve();
         };
         img.onerror = (e) => {
@@ -181,72 +584,160 @@ async function loadCustomTexture(file: File, terrainType: TerrainType): Promise<
             reject(new Error('Failed to load image file'));
         };
     });
+    img.src = dataUrl;
 
-    // Convert File to data URL
-    const reader = new FileReader();
-    const readerPromise = new Promise<void>((resolve, reject) => {
-        reader.onload = (e) => {
-            img.src = e.target?.result as string;
-            resolve();
-        };
-        reader.onerror = () => reject(new Error('Failed to read file'));
-    });
-    reader.readAsDataURL(file);
-
-    await readerPromise;
     await imgPromise;
+    return buildTerrainAssets(img, wangData, 'Custom texture');
+}
 
-    // Generate Wang data with the standard mapping used by all built-in terrains
-    // This matches the exact mapping in water.txt, sand.txt, dirt.txt, grass.txt
-    const defaultWangData: WangTileData = {
-        tile_width: TILE_WIDTH,
-        tile_height: TILE_HEIGHT,
-        wang_sets: [{
-            members: [
-                { id: 0, role: 4 },
-                { id: 1, role: 6 },
-                { id: 2, role: 2 },
-                { id: 3, role: 12 },
-                { id: 4, role: 15 },
-                { id: 5, role: 3 },
-                { id: 6, role: 8 },
-                { id: 7, role: 9 },
-                { id: 8, role: 1 },
-                { id: 9, role: 11 },
-                { id: 10, role: 13 },
-                { id: 11, role: 5 },
-                { id: 12, role: 7 },
-                { id: 13, role: 14 },
-                { id: 14, role: 10 }
-            ]
-        }]
-    };
+// --- INFINITE WORLD ---
+interface WorldChunk {
+    cells: Uint16Array;
+    heights: Float32Array;
+    edited: boolean; // Painted chunks are never evicted
+}
 
-    // Build role-to-id lookup map
-    const roleToId = new Map<number, number>();
-    defaultWangData.wang_sets[0].members.forEach(member => {
-        roleToId.set(member.role, member.id);
-    });
+// Unbounded cell storage for infinite mode - chunks are requested from a worker as the camera pans
+// and drawn once they arrive. Cells of chunks that haven't arrived read as water, like cells
+// outside a finite map.
+class InfiniteWorld {
+    public readonly seed: number;
+    public onChunkLoaded: ((chunkX: number, chunkY: number) => void) | null = null;
+    private client: ChunkClient;
+    private chunks: Map<string, WorldChunk> = new Map(); // Map insertion order doubles as LRU order
+    private pending: Set<string> = new Set(); // Requested from the worker but not arrived yet
+    private failed: Set<string> = new Set();  // Not requested again (the worker logged the error)
+    // getCell is called several times per tile, so remember the last chunk to skip the map lookup
+    private lastChunkX: number = NaN;
+    private lastChunkY: number = NaN;
+    private lastChunk: WorldChunk | null = null;
+
+    constructor(config: MapConfig, seed: number) {
+        this.seed = seed;
+        this.client = new ChunkClient(config, seed, message => this.receiveChunk(message));
+    }
 
-    // Update or create terrain assets
-    terrainAssets.set(terrainType, {
-        image: img,
-        wangData: defaultWangData,
-        roleToId
-    });
+    public getCell(x: number, y: number): TerrainType {
+        const chunk = this.getLoadedChunk(x, y);
+        return chunk ? chunk.cells[this.indexInChunk(x, y)] : TerrainType.Water;
+    }
 
-    console.log(`Custom texture loaded for terrain ${terrainType}`);
+    // Returns false (and changes nothing) if the cell's chunk hasn't arrived yet
+    public setCell(x: number, y: number, type: TerrainType): boolean {
+        const chunk = this.getLoadedChunk(x, y);
+        if (!chunk) return false;
+        chunk.cells[this.indexInChunk(x, y)] = type;
+        chunk.edited = true;
+        return true;
+    }
+
+    public getHeight(x: number, y: number): number {
+        return this.getLoadedChunk(x, y)?.heights[this.indexInChunk(x, y)] ?? 0;
+    }
+
+    // Whether the chunk holding cell (x, y) is in memory (does not request it)
+    public isLoaded(x: number, y: number): boolean {
+        return this.getLoadedChunk(x, y) !== null;
+    }
+
+    // Request every chunk overlapping the cell rectangle that isn't loaded or on its way.
+    // Returns whether all of them are loaded already
+    public requestArea(minX: number, minY: number, maxX: number, maxY: number): boolean {
+        let loaded = true;
+        for (let chunkY = Math.floor(minY / WORLD_CHUNK_SIZE); chunkY <= Math.floor(maxY / WORLD_CHUNK_SIZE); chunkY++) {
+            for (let chunkX = Math.floor(minX / WORLD_CHUNK_SIZE); chunkX <= Math.floor(maxX / WORLD_CHUNK_SIZE); chunkX++) {
+                const key = `${chunkX},${chunkY}`;
+                if (this.chunks.has(key)) continue;
+                loaded = false;
+                if (this.pending.has(key) || this.failed.has(key)) continue;
+                this.pending.add(key);
+                this.client.request(chunkX, chunkY);
+            }
+        }
+        return loaded;
+    }
+
+    public get loadedChunkCount(): number {
+        return this.chunks.size;
+    }
+
+    public get pendingChunkCount(): number {
+        return this.pending.size;
+    }
+
+    // Stop the chunk worker once the world is replaced
+    public dispose() {
+        this.client.terminate();
+        this.onChunkLoaded = null;
+    }
+
+    private indexInChunk(x: number, y: number): number {
+        const localX = x - Math.floor(x / WORLD_CHUNK_SIZE) * WORLD_CHUNK_SIZE;
+        const localY = y - Math.floor(y / WORLD_CHUNK_SIZE) * WORLD_CHUNK_SIZE;
+        return localY * WORLD_CHUNK_SIZE + localX;
+    }
+
+    private getLoadedChunk(x: number, y: number): WorldChunk | null {
+        const chunkX = Math.floor(x / WORLD_CHUNK_SIZE);
+        const chunkY = Math.floor(y / WORLD_CHUNK_SIZE);
+        if (this.lastChunk && chunkX === this.lastChunkX && chunkY === this.lastChunkY) return this.lastChunk;
+
+        const key = `${chunkX},${chunkY}`;
+        const chunk = this.chunks.get(key);
+        if (!chunk) return null;
+
+        // Move to the back of the LRU order
+        this.chunks.delete(key);
+        this.chunks.set(key, chunk);
+
+        this.lastChunkX = chunkX;
+        this.lastChunkY = chunkY;
+        this.lastChunk = chunk;
+        return chunk;
+    }
+
+    private receiveChunk(message: ChunkMessage) {
+        const key = `${message.chunkX},${message.chunkY}`;
+        this.pending.delete(key);
+        if (message.type === 'chunk-error') {
+            this.failed.add(key);
+            console.error(`[WORLD] Chunk ${key} failed to generate: ${message.message}`);
+            return;
+        }
+
+        this.evict();
+        this.chunks.set(key, { cells: message.cells, heights: message.heights, edited: false });
+        this.onChunkLoaded?.(message.chunkX, message.chunkY);
+    }
+
+    // Drop least recently used unedited chunks until there is room for one more
+    private evict() {
+        if (this.chunks.size < WORLD_CHUNK_CACHE_LIMIT) return;
+        for (const [key, chunk] of this.chunks) {
+            if (this.chunks.size < WORLD_CHUNK_CACHE_LIMIT) break;
+            if (!chunk.edited) this.chunks.delete(key);
+        }
+        this.lastChunk = null; // May have been evicted
+    }
 }
 
 // --- DUAL GRID SYSTEM ---
 class DualGridSystem {
     public width: number;
     public height: number;
-    public cells: TerrainType[];
+    public cells: Uint16Array; // Row-major terrain type ids (the generation worker's buffer is kept as is)
+    // Elevation (-1 to 1) the cells were generated from; null when unknown (after a resize, or a project
+    // saved before heights were stored). Replaced as a whole, never written in place
+    public heights: Float32Array | null = null;
     public renderMode: RenderMode = RenderMode.IsometricColored;
     public cameraOffsetX: number = 0;
     public cameraOffsetY: number = 0;
     public zoomLevel: number = 1.0;
+    public seed: number = 0; // Seed used by the last generated map
+    public world: InfiniteWorld | null = null; // Set in infinite mode - cells/heights/width/height are then unused
+    public lastDrawnTileCount: number = 0; // Tiles redrawn into chunks by the last render() call (for the frame stats)
+    public lastVisibleChunkCount: number = 0;
+    public lastRebuiltChunkCount: number = 0;
     public showBaseLayer: boolean = true;
     public showTransitionLayer: boolean = true;
     public showWorldGrid: boolean = false;
@@ -256,21 +747,162 @@ class DualGridSystem {
     private debugTileY: number = -1;
     private buckets: TerrainBucket[] = [...DEFAULT_BUCKETS]; // Store current bucket configuration
 
+    // Chunk cache - keyed by render variant + chunk coords, Map insertion order doubles as LRU order
+    private chunkCache: Map<string, RenderChunk> = new Map();
+    private chunkCachePixels: number = 0;
+    private chunkVersions: Map<string, number> = new Map(); // Bumped when cells in/around a chunk change
+    private contentVersion: number = 0; // Bumped when everything must be redrawn (buckets, textures, colors)
+
     constructor(width: number, height: number) {
         this.width = width;
         this.height = height;
-        this.cells = new Array(width * height).fill(TerrainType.Water);
+        this.cells = new Uint16Array(width * height); // All water (TerrainType.Water = 0)
     }
 
     public getCell(x: number, y: number): TerrainType {
+        if (this.world) return this.world.getCell(x, y);
         if (x < 0 || x >= this.width || y < 0 || y >= this.height) return TerrainType.Water;
         return this.cells[y * this.width + x];
     }
 
     public setCell(x: number, y: number, type: TerrainType) {
-        if (x >= 0 && x < this.width && y >= 0 && y < this.height) {
+        if (this.world) {
+            if (this.world.setCell(x, y, type)) this.invalidateCell(x, y);
+        } else if (x >= 0 && x < this.width && y >= 0 && y < this.height) {
             this.cells[y * this.width + x] = type;
+            this.invalidateCell(x, y);
+        }
+    }
+
+    // Replace every cell at once (same dimensions), e.g. when restoring a project or history snapshot
+    public loadCells(cells: ArrayLike<number>) {
+        this.cells = Uint16Array.from(cells);
+        this.invalidateAll();
+    }
+
+    // Write many cells of the bounded map at once (flat indices into `cells`), e.g. undoing a big
+    // change or a cleanup pass. Large writes drop the whole chunk cache instead of bumping
+    // chunk versions cell by cell.
+    public setCells(indices: ArrayLike<number>, values: ArrayLike<number>) {
+        for (let i = 0; i < indices.length; i++) {
+            this.cells[indices[i]] = values[i];
+        }
+
+        if (indices.length > BULK_INVALIDATE_CELLS) {
+            this.invalidateAll();
+        } else {
+            for (let i = 0; i < indices.length; i++) {
+                this.invalidateCell(indices[i] % this.width, Math.floor(indices[i] / this.width));
+            }
+        }
+    }
+
+    // A cell is a corner of the four dual-grid tiles (x-1..x, y-1..y), which may span
+    // up to four chunks - all of them need redrawing
+    private invalidateCell(x: number, y: number) {
+        this.invalidateCells(x, y, x, y);
+    }
+
+    // Same for every cell in a rectangle (e.g. a world chunk that just arrived)
+    private invalidateCells(minX: number, minY: number, maxX: number, maxY: number) {
+        const minChunkX = Math.floor((minX - 1) / CHUNK_SIZE);
+        const maxChunkX = Math.floor(maxX / CHUNK_SIZE);
+        const minChunkY = Math.floor((minY - 1) / CHUNK_SIZE);
+        const maxChunkY = Math.floor(maxY / CHUNK_SIZE);
+
+        for (let cy = minChunkY; cy <= maxChunkY; cy++) {
+            for (let cx = minChunkX; cx <= maxChunkX; cx++) {
+                const key = `${cx},${cy}`;
+                this.chunkVersions.set(key, (this.chunkVersions.get(key) ?? 0) + 1);
+            }
+        }
+    }
+
+    // Drop every cached chunk (bucket order, colors or textures changed)
+    public invalidateAll() {
+        this.contentVersion++;
+        this.chunkCache.clear();
+        this.chunkCachePixels = 0;
+        this.chunkVersions.clear();
+    }
+
+    // Zoom so the map point under (screenX, screenY) stays under the cursor.
+    // With screen = center + zoom * (cameraOffset + local), keeping `local` fixed gives
+    // newOffset = offset + (screen - center) * (1/newZoom - 1/zoom)
+    public zoomAt(screenX: number, screenY: number, newZoom: number, canvasWidth: number, canvasHeight: number) {
+        const clamped = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, newZoom));
+        const relX = screenX - canvasWidth / 2;
+        const relY = screenY - canvasHeight / 2;
+
+        this.cameraOffsetX += relX * (1 / clamped - 1 / this.zoomLevel);
+        this.cameraOffsetY += relY * (1 / clamped - 1 / this.zoomLevel);
+        this.zoomLevel = clamped;
+    }
+
+    // Paint a brush footprint (in world-grid space) centered on a cell
+    // Returns the number of cells that actually changed
+    public paintBrush(centerX: number, centerY: number, radius: number, shape: BrushShape, type: TerrainType): number {
+        let changed = 0;
+
+        for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                if (shape === BrushShape.Circle && dx * dx + dy * dy > (radius + 0.5) * (radius + 0.5)) continue;
+                if (shape === BrushShape.Diamond && Math.abs(dx) + Math.abs(dy) > radius) continue;
+
+                const x = centerX + dx;
+                const y = centerY + dy;
+                if (!this.world && (x < 0 || x >= this.width || y < 0 || y >= this.height)) continue;
+                if (this.world && !this.world.isLoaded(x, y)) continue; // Ground that hasn't arrived yet
+                if (this.getCell(x, y) === type) continue;
+
+                this.setCell(x, y, type);
+                changed++;
+            }
+        }
+
+        return changed;
+    }
+
+    // Run the cleanup stage on the current cells (e.g. after hand edits). Returns the number of changed cells.
+    public cleanUp(cleanup: CleanupSettings): number {
+        const cleaned: TerrainType[] = Array.from(this.cells);
+        cleanUpCells(cleaned, this.width, this.height, cleanup);
+
+        const indices: number[] = [];
+        const values: TerrainType[] = [];
+        for (let i = 0; i < cleaned.length; i++) {
+            if (cleaned[i] !== this.cells[i]) {
+                indices.push(i);
+                values.push(cleaned[i]);
+            }
         }
+        this.setCells(indices, values);
+        return indices.length;
+    }
+
+    // Reallocate the cell array for new dimensions (all cells reset to water)
+    public resize(width: number, height: number) {
+        this.world?.dispose();
+        this.world = null;
+        this.width = width;
+        this.height = height;
+        this.cells = new Uint16Array(width * height); // All water (TerrainType.Water = 0)
+        this.heights = null;
+        this.debugTileX = -1;
+        this.debugTileY = -1;
+        this.invalidateAll();
+    }
+
+    // Replace the bucket configuration used for transition layer ordering
+    // (applyGeneratedMap sets this too; used when cells come from somewhere else, e.g. a project file)
+    // Buckets are copied so later edits in the config panel don't leak into the applied configuration
+    public setBuckets(buckets: TerrainBucket[]) {
+        this.buckets = buckets.map(b => ({ ...b }));
+        this.invalidateAll();
+    }
+
+    public getBuckets(): TerrainBucket[] {
+        return this.buckets.map(b => ({ ...b }));
     }
 
     public setDebugTile(x: number, y: number) {
@@ -285,9 +917,13 @@ class DualGridSystem {
     }
 
     public getDebugInfo(x: number, y: number): TileDebugInfo | null {
-        if (x < 0 || x >= this.width - 1 || y < 0 || y >= this.height - 1) {
+        if (!this.world && (x < 0 || x >= this.width - 1 || y < 0 || y >= this.height - 1)) {
             return null;
         }
+        if (this.world && !(this.world.isLoaded(x, y) && this.world.isLoaded(x + 1, y + 1) &&
+            this.world.isLoaded(x + 1, y) && this.world.isLoaded(x, y + 1))) {
+            return null; // Still on its way from the worker
+        }
 
         // In isometric view, the visual corners map to grid positions as:
         // Visual TOP (North) = grid (x, y)
@@ -305,6 +941,12 @@ class DualGridSystem {
             gridX: x,
             gridY: y,
             corners: { tl, tr, bl, br },
+            elevations: this.world || this.heights ? {
+                tl: this.getHeight(x, y),
+                tr: this.getHeight(x + 1, y),
+                bl: this.getHeight(x + 1, y + 1),
+                br: this.getHeight(x, y + 1)
+            } : null,
             baseLayer: {
                 terrain: Math.min(tl, tr, bl, br),
                 role: 15,
@@ -316,21 +958,13 @@ class DualGridSystem {
         // Get base layer tile ID
         const baseAssets = terrainAssets.get(debugInfo.baseLayer.terrain);
         if (baseAssets) {
-            debugInfo.baseLayer.tileId = baseAssets.roleToId.get(15);
+            debugInfo.baseLayer.tileId = pickTileVariant(baseAssets, 15, x, y, this.seed);
         }
 
         // Calculate transition layers
         for (const currentLayer of this.getTransitionLayerOrder()) {
-            // Wang tile bitmask - each bit represents a visual corner:
-            // Bit 1 = Top visual corner (tl)
-            // Bit 2 = Right visual corner (tr)
-            // Bit 4 = Bottom visual corner (bl)
-            // Bit 8 = Left visual corner (br)
-            let role = 0;
-            if (tl >= currentLayer) role |= 1;  // Top corner
-            if (tr >= currentLayer) role |= 2;  // Right corner
-            if (bl >= currentLayer) role |= 4;  // Bottom corner
-            if (br >= currentLayer) role |= 8;  // Left corner
+            // Wang tile bitmask - each bit represents a visual corner (see getLayerRole)
+            const role = this.getLayerRole(x, y, currentLayer);
 
             let drawn = false;
             let reason = '';
@@ -345,7 +979,7 @@ class DualGridSystem {
                 reason = 'Drawn: Partial transition tile';
                 const assets = terrainAssets.get(currentLayer);
                 if (assets) {
-                    tileId = assets.roleToId.get(role);
+                    tileId = pickTileVariant(assets, role, x, y, this.seed);
                 }
             }
 
@@ -361,34 +995,39 @@ class DualGridSystem {
         return debugInfo;
     }
 
-    public generatePerlinMap(config: MapConfig) {
-        // Store the bucket configuration for use in rendering transitions
-        this.buckets = [...config.buckets];
-
-        // Scale affects the "zoom" of the noise. Lower = larger continents.
-        const scale = config.scale;
-        const seed = config.seed !== null ? config.seed : Math.random() * 1000;
-
-        // Sort buckets by threshold (highest to lowest) for easier checking
-        const sortedBuckets = [...config.buckets].sort((a, b) => b.threshold - a.threshold);
+    private getHeight(x: number, y: number): number {
+        return this.world ? this.world.getHeight(x, y) : this.heights?.[y * this.width + x] ?? 0;
+    }
 
-        for (let y = 0; y < this.height; y++) {
-            for (let x = 0; x < this.width; x++) {
-                // Get noise value between -1 and 1
-                const value = noise2D((x + seed) * scale, (y + seed) * scale);
+    // Load a map produced by generateMap (usually in the generation worker)
+    public applyGeneratedMap(buckets: TerrainBucket[], result: GenerationResult) {
+        if (result.width !== this.width || result.height !== this.height) {
+            this.resize(result.width, result.height);
+        }
+        this.world?.dispose();
+        this.world = null;
 
-                // Find the appropriate bucket - check from highest threshold to lowest
-                let type = sortedBuckets[sortedBuckets.length - 1].terrainType; // Default to lowest bucket
-                for (const bucket of sortedBuckets) {
-                    if (value >= bucket.threshold) {
-                        type = bucket.terrainType;
-                        break;
-                    }
-                }
+        // Store the bucket configuration for use in rendering transitions
+        this.setBuckets(buckets);
+        this.seed = result.seed;
+        this.cells = result.cells; // Transferred from the worker - no copy needed
+        this.heights = result.heights;
+        this.invalidateAll();
+    }
 
-                this.setCell(x, y, type);
-            }
-        }
+    // Switch to an infinite world - renderChunk requests world chunks as the camera pans
+    public applyInfiniteWorld(buckets: TerrainBucket[], world: InfiniteWorld) {
+        this.setBuckets(buckets);
+        this.world?.dispose();
+        this.world = world;
+        // Redraw the render chunks that were left blank while the world chunk was on its way
+        world.onChunkLoaded = (chunkX, chunkY) => this.invalidateCells(
+            chunkX * WORLD_CHUNK_SIZE, chunkY * WORLD_CHUNK_SIZE,
+            (chunkX + 1) * WORLD_CHUNK_SIZE - 1, (chunkY + 1) * WORLD_CHUNK_SIZE - 1);
+        this.seed = world.seed;
+        this.debugTileX = -1;
+        this.debugTileY = -1;
+        this.invalidateAll();
     }
 
     public render(ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) {
@@ -406,88 +1045,31 @@ class DualGridSystem {
         const originX = canvasWidth / 2 + this.cameraOffsetX;
         const originY = canvasHeight / 2 + this.cameraOffsetY;
 
-        // TWO-PASS RENDERING SYSTEM:
-        // Pass 1: Base layer - draw full tiles (role 15 = all 4 corners match)
-        // Pass 2: Transition layer - draw edge/corner tiles (role != 15)
+        // VIEWPORT CULLING - only tiles that intersect the canvas are visited
+        const visible = this.getVisibleTileRange(canvasWidth, canvasHeight);
 
-        // PASS 1: BASE FULL TILES
-        // Draw the lowest terrain type from the 4 corners as a full tile background
-        // This provides a base for transition tiles to draw on top of
-        if (this.showBaseLayer) {
-            for (let y = 0; y < this.height - 1; y++) {
-                for (let x = 0; x < this.width - 1; x++) {
-                    // Map grid positions to visual isometric corners
-                    const tl = this.getCell(x, y);          // Top corner (North)
-                    const tr = this.getCell(x + 1, y);      // Right corner (East)
-                    const bl = this.getCell(x + 1, y + 1);  // Bottom corner (South)
-                    const br = this.getCell(x, y + 1);      // Left corner (West)
+        // TERRAIN - composited from cached chunk canvases (see renderChunk for the two-pass system)
+        this.drawChunks(ctx, visible, originX, originY);
 
-                    // Draw the lowest terrain type as the base
-                    const minTerrain = Math.min(tl, tr, bl, br);
-                    const { drawX, drawY } = this.calculateTilePosition(x, y, originX, originY);
-                    this.drawTileByRole(ctx, drawX, drawY, minTerrain, 15);
-                }
-            }
-        }
-
-        // PASS 2: TRANSITION TILES - MULTI-PASS SPLATTING
-        // Draw layers in priority order (Sand → Dirt → Grass)
-        // Each layer "splats" onto lower layers, creating natural coastlines
-        // Skip Water (0) since it's already the base layer
-        if (this.showTransitionLayer) {
-            for (const currentLayer of this.getTransitionLayerOrder()) {
-                for (let y = 0; y < this.height - 1; y++) {
-                    for (let x = 0; x < this.width - 1; x++) {
-                        // Map grid positions to visual isometric corners
-                        // Visual TOP (North) = grid (x, y)
-                        // Visual RIGHT (East) = grid (x+1, y)
-                        // Visual BOTTOM (South) = grid (x+1, y+1)
-                        // Visual LEFT (West) = grid (x, y+1)
-                        const tl = this.getCell(x, y);          // Top corner (North)
-                        const tr = this.getCell(x + 1, y);      // Right corner (East)
-                        const bl = this.getCell(x + 1, y + 1);  // Bottom corner (South)
-                        const br = this.getCell(x, y + 1);      // Left corner (West)
-
-                        // Calculate Wang tile bitmask for this layer
-                        // Each bit represents whether a visual corner has terrain >= currentLayer
-                        // Bit 1 = Top visual corner (tl)
-                        // Bit 2 = Right visual corner (tr)
-                        // Bit 4 = Bottom visual corner (bl)
-                        // Bit 8 = Left visual corner (br)
-                        let role = 0;
-                        if (tl >= currentLayer) role |= 1;  // Top corner
-                        if (tr >= currentLayer) role |= 2;  // Right corner
-                        if (bl >= currentLayer) role |= 4;  // Bottom corner
-                        if (br >= currentLayer) role |= 8;  // Left corner
-
-                        // Skip if role is 0 (no corners) or 15 (full tile, already in base layer)
-                        if (role === 0 || role === 15) continue;
-
-                        const { drawX, drawY } = this.calculateTilePosition(x, y, originX, originY);
-                        this.drawTileByRole(ctx, drawX, drawY, currentLayer, role);
-                    }
-                }
-            }
-        }
-
-        // DEBUG OVERLAYS - World Grid (shows cell boundaries)
-        if (this.showWorldGrid) {
-            ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-            ctx.lineWidth = 1;
+        // DEBUG OVERLAYS - World Grid (shows cell boundaries)
+        if (this.showWorldGrid) {
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+            ctx.lineWidth = 1;
 
             if (this.renderMode === RenderMode.OrthographicColored) {
                 // Orthographic grid
-                for (let y = 0; y <= this.height; y++) {
-                    for (let x = 0; x <= this.width; x++) {
+                const cells = this.getVisibleTileRange(canvasWidth, canvasHeight, this.width, this.height, 1);
+                for (let y = cells.minY; y <= cells.maxY; y++) {
+                    for (let x = cells.rowStart(y); x <= cells.rowEnd(y); x++) {
                         const drawX = originX + x * 40;
                         const drawY = originY + y * 40;
-                        if (x < this.width) {
+                        if (this.world || x < this.width) {
                             ctx.beginPath();
                             ctx.moveTo(drawX, drawY);
                             ctx.lineTo(drawX + 40, drawY);
                             ctx.stroke();
                         }
-                        if (y < this.height) {
+                        if (this.world || y < this.height) {
                             ctx.beginPath();
                             ctx.moveTo(drawX, drawY);
                             ctx.lineTo(drawX, drawY + 40);
@@ -497,8 +1079,10 @@ class DualGridSystem {
                 }
             } else {
                 // Isometric grid - draw diamond shapes for each cell
-                for (let y = 0; y < this.height; y++) {
-                    for (let x = 0; x < this.width; x++) {
+                // Cells sit on tile corners, so widen the tile range by one
+                const cells = this.getVisibleTileRange(canvasWidth, canvasHeight, this.width - 1, this.height - 1, 1);
+                for (let y = cells.minY; y <= cells.maxY; y++) {
+                    for (let x = cells.rowStart(y); x <= cells.rowEnd(y); x++) {
                         const centerX = x;
                         const centerY = y;
                         const drawX = originX + (centerX - centerY) * (TILE_WIDTH / 2);
@@ -523,8 +1107,9 @@ class DualGridSystem {
 
             if (this.renderMode === RenderMode.OrthographicColored) {
                 // Orthographic dual grid - offset by half
-                for (let y = 0; y < this.height - 1; y++) {
-                    for (let x = 0; x < this.width - 1; x++) {
+                for (let y = visible.minY; y <= visible.maxY; y++) {
+                    const xEnd = visible.rowEnd(y);
+                    for (let x = visible.rowStart(y); x <= xEnd; x++) {
                         const drawX = originX + x * 40;
                         const drawY = originY + y * 40;
                         ctx.strokeRect(drawX, drawY, 40, 40);
@@ -532,8 +1117,9 @@ class DualGridSystem {
                 }
             } else {
                 // Isometric dual grid
-                for (let y = 0; y < this.height - 1; y++) {
-                    for (let x = 0; x < this.width - 1; x++) {
+                for (let y = visible.minY; y <= visible.maxY; y++) {
+                    const xEnd = visible.rowEnd(y);
+                    for (let x = visible.rowStart(y); x <= xEnd; x++) {
                         const centerX = x + 0.5;
                         const centerY = y + 0.5;
                         const drawX = originX + (centerX - centerY) * (TILE_WIDTH / 2);
@@ -622,6 +1208,232 @@ class DualGridSystem {
                 ctx.stroke();
             }
         }
+
+        // Restore context state (undo zoom transformation)
+        ctx.restore();
+    }
+
+    // Composite every chunk that overlaps the visible range, rebuilding stale ones
+    private drawChunks(ctx: CanvasRenderingContext2D, visible: VisibleTileRange, originX: number, originY: number) {
+        // Level of detail: nearest power of two to the zoom, so a chunk is never scaled by more
+        // than ~1.4x either way and cached pixels stay proportional to the screen area
+        const lod = Math.min(MAX_CHUNK_LOD, Math.pow(2, Math.round(Math.log2(this.zoomLevel))));
+        const variant = `${this.renderMode}|${this.showBaseLayer ? 1 : 0}${this.showTransitionLayer ? 1 : 0}|${lod}`;
+        this.lastDrawnTileCount = 0;
+        this.lastVisibleChunkCount = 0;
+        this.lastRebuiltChunkCount = 0;
+
+        // Chunks are pixel images - keep them crisp like the tile art
+        ctx.imageSmoothingEnabled = false;
+
+        if (visible.maxY < visible.minY) return;
+
+        const minChunkY = Math.floor(visible.minY / CHUNK_SIZE);
+        const maxChunkY = Math.floor(visible.maxY / CHUNK_SIZE);
+
+        for (let cy = minChunkY; cy <= maxChunkY; cy++) {
+            // Union of the visible x spans for the rows in this chunk row
+            let minX = Infinity;
+            let maxX = -Infinity;
+            const rowFrom = Math.max(visible.minY, cy * CHUNK_SIZE);
+            const rowTo = Math.min(visible.maxY, cy * CHUNK_SIZE + CHUNK_SIZE - 1);
+            for (let y = rowFrom; y <= rowTo; y++) {
+                minX = Math.min(minX, visible.rowStart(y));
+                maxX = Math.max(maxX, visible.rowEnd(y));
+            }
+            if (minX > maxX) continue;
+
+            for (let cx = Math.floor(minX / CHUNK_SIZE); cx <= Math.floor(maxX / CHUNK_SIZE); cx++) {
+                const chunk = this.getChunk(variant, lod, cx, cy);
+                const bounds = this.getChunkBounds(cx, cy);
+                ctx.drawImage(chunk.canvas, originX + bounds.left, originY + bounds.top, bounds.width, bounds.height);
+                this.lastVisibleChunkCount++;
+            }
+        }
+    }
+
+    // Fetch a chunk from the cache, re-rendering it if cells around it changed since it was drawn
+    private getChunk(variant: string, lod: number, chunkX: number, chunkY: number): RenderChunk {
+        const chunkKey = `${chunkX},${chunkY}`;
+        const cacheKey = `${variant}|${chunkKey}`;
+        const chunkVersion = this.chunkVersions.get(chunkKey) ?? 0;
+
+        let chunk = this.chunkCache.get(cacheKey);
+        if (chunk) {
+            // Move to the back of the LRU order
+            this.chunkCache.delete(cacheKey);
+            this.chunkCache.set(cacheKey, chunk);
+            if (chunk.chunkVersion === chunkVersion && chunk.contentVersion === this.contentVersion) {
+                return chunk;
+            }
+        } else {
+            // Evict least recently used chunks until the new one fits, reusing the last evicted canvas
+            const bounds = this.getChunkBounds(chunkX, chunkY);
+            const pixels = Math.ceil(bounds.width * lod) * Math.ceil(bounds.height * lod);
+            let recycled: HTMLCanvasElement | undefined;
+            while (this.chunkCache.size > 0 && this.chunkCachePixels + pixels > CHUNK_CACHE_PIXEL_BUDGET) {
+                const oldestKey = this.chunkCache.keys().next().value!;
+                const evicted = this.chunkCache.get(oldestKey)!;
+                recycled = evicted.canvas;
+                this.chunkCachePixels -= evicted.pixels;
+                this.chunkCache.delete(oldestKey);
+            }
+            chunk = { canvas: recycled ?? document.createElement('canvas'), chunkVersion: -1, contentVersion: -1, pixels };
+            this.chunkCache.set(cacheKey, chunk);
+            this.chunkCachePixels += pixels;
+        }
+
+        this.renderChunk(chunk.canvas, lod, chunkX, chunkY);
+        chunk.chunkVersion = chunkVersion;
+        chunk.contentVersion = this.contentVersion;
+        this.lastRebuiltChunkCount++;
+        return chunk;
+    }
+
+    // Pixel rectangle (relative to the map origin) covered by a chunk's tiles
+    private getChunkBounds(chunkX: number, chunkY: number): { left: number; top: number; width: number; height: number } {
+        const x0 = chunkX * CHUNK_SIZE;
+        const y0 = chunkY * CHUNK_SIZE;
+
+        if (this.renderMode === RenderMode.OrthographicColored) {
+            return { left: x0 * 40, top: y0 * 40, width: CHUNK_SIZE * 40, height: CHUNK_SIZE * 40 };
+        }
+
+        // Leftmost tile center is (x0, y0 + CHUNK_SIZE - 1), topmost is (x0, y0)
+        return {
+            left: (x0 - (y0 + CHUNK_SIZE - 1)) * (TILE_WIDTH / 2) - TILE_WIDTH / 2,
+            top: (x0 + y0) * (TILE_HEIGHT / 2),
+            width: CHUNK_SIZE * TILE_WIDTH,
+            height: CHUNK_SIZE * TILE_HEIGHT
+        };
+    }
+
+    private renderChunk(chunkCanvas: HTMLCanvasElement, lod: number, chunkX: number, chunkY: number) {
+        const bounds = this.getChunkBounds(chunkX, chunkY);
+        const pixelWidth = Math.ceil(bounds.width * lod);
+        const pixelHeight = Math.ceil(bounds.height * lod);
+        if (chunkCanvas.width !== pixelWidth || chunkCanvas.height !== pixelHeight) {
+            chunkCanvas.width = pixelWidth;
+            chunkCanvas.height = pixelHeight;
+        }
+        const chunkCtx = chunkCanvas.getContext('2d')!;
+        chunkCtx.setTransform(1, 0, 0, 1, 0, 0);
+        chunkCtx.clearRect(0, 0, pixelWidth, pixelHeight);
+        chunkCtx.scale(lod, lod);
+
+        // Tiles are positioned relative to the chunk's own top-left corner
+        const originX = -bounds.left;
+        const originY = -bounds.top;
+        const minX = chunkX * CHUNK_SIZE;
+        const minY = chunkY * CHUNK_SIZE;
+        // An infinite world has no last tile to clamp to
+        const maxX = (this.world ? minX + CHUNK_SIZE : Math.min(minX + CHUNK_SIZE, this.width - 1)) - 1;
+        const maxY = (this.world ? minY + CHUNK_SIZE : Math.min(minY + CHUNK_SIZE, this.height - 1)) - 1;
+
+        // Leave the chunk blank until every world chunk under its tiles (and their far corners)
+        // has arrived from the worker - onChunkLoaded then invalidates it
+        if (this.world && !this.world.requestArea(minX, minY, maxX + 1, maxY + 1)) return;
+
+        // TWO-PASS RENDERING SYSTEM:
+        // Pass 1: Base layer - draw full tiles (role 15 = all 4 corners match)
+        // Pass 2: Transition layer - draw edge/corner tiles (role != 15)
+        // Tiles never overlap, so drawing both passes per chunk matches a whole-map two-pass render
+
+        // PASS 1: BASE FULL TILES
+        // Draw the lowest terrain type from the 4 corners as a full tile background
+        // This provides a base for transition tiles to draw on top of
+        if (this.showBaseLayer) {
+            for (let y = minY; y <= maxY; y++) {
+                for (let x = minX; x <= maxX; x++) {
+                    // Map grid positions to visual isometric corners
+                    const tl = this.getCell(x, y);          // Top corner (North)
+                    const tr = this.getCell(x + 1, y);      // Right corner (East)
+                    const bl = this.getCell(x + 1, y + 1);  // Bottom corner (South)
+                    const br = this.getCell(x, y + 1);      // Left corner (West)
+
+                    // Draw the lowest terrain type as the base
+                    const minTerrain = Math.min(tl, tr, bl, br);
+                    const { drawX, drawY } = this.calculateTilePosition(x, y, originX, originY);
+                    this.drawTileByRole(chunkCtx, drawX, drawY, minTerrain, 15, x, y);
+                    this.lastDrawnTileCount++;
+                }
+            }
+        }
+
+        // PASS 2: TRANSITION TILES - MULTI-PASS SPLATTING
+        // Draw layers in priority order (Sand → Dirt → Grass)
+        // Each layer "splats" onto lower layers, creating natural coastlines
+        // Skip Water (0) since it's already the base layer
+        if (this.showTransitionLayer) {
+            for (const currentLayer of this.getTransitionLayerOrder()) {
+                for (let y = minY; y <= maxY; y++) {
+                    for (let x = minX; x <= maxX; x++) {
+                        // Calculate Wang tile bitmask for this layer (see getLayerRole)
+                        // Each bit represents whether a visual corner has terrain >= currentLayer
+                        const role = this.getLayerRole(x, y, currentLayer);
+
+                        // Skip if role is 0 (no corners) or 15 (full tile, already in base layer)
+                        if (role === 0 || role === 15) continue;
+
+                        const { drawX, drawY } = this.calculateTilePosition(x, y, originX, originY);
+                        this.drawTileByRole(chunkCtx, drawX, drawY, currentLayer, role, x, y);
+                        this.lastDrawnTileCount++;
+                    }
+                }
+            }
+        }
+    }
+
+    // Range of dual-grid tiles (or cells, via lastX/lastY) that intersect the canvas.
+    // Rows are bounded per y: in isometric mode the screen rectangle is a diamond in grid
+    // space, so x is also limited by the x - y (screen column) and x + y (screen row) bands.
+    private getVisibleTileRange(
+        canvasWidth: number, canvasHeight: number,
+        lastX: number = this.width - 2, lastY: number = this.height - 2,
+        margin: number = 0
+    ): VisibleTileRange {
+        // An infinite world is unbounded in every direction
+        const first = this.world ? -Infinity : 0;
+        if (this.world) {
+            lastX = Infinity;
+            lastY = Infinity;
+        }
+
+        // Undo the zoom (scaled around the canvas center) and the camera offset:
+        // screen = center + zoom * (cameraOffset + local)
+        const halfViewWidth = canvasWidth / 2 / this.zoomLevel;
+        const halfViewHeight = canvasHeight / 2 / this.zoomLevel;
+        const minLocalX = -halfViewWidth - this.cameraOffsetX;
+        const maxLocalX = halfViewWidth - this.cameraOffsetX;
+        const minLocalY = -halfViewHeight - this.cameraOffsetY;
+        const maxLocalY = halfViewHeight - this.cameraOffsetY;
+
+        if (this.renderMode === RenderMode.OrthographicColored) {
+            const minX = Math.max(first, Math.floor(minLocalX / 40) - margin);
+            const maxX = Math.min(lastX, Math.floor(maxLocalX / 40) + margin);
+            return {
+                minY: Math.max(first, Math.floor(minLocalY / 40) - margin),
+                maxY: Math.min(lastY, Math.floor(maxLocalY / 40) + margin),
+                rowStart: () => minX,
+                rowEnd: () => maxX
+            };
+        }
+
+        // Tile (x, y) is centered at ((x - y) * TILE_WIDTH/2, (x + y + 1) * TILE_HEIGHT/2)
+        // and extends half a tile in each direction
+        const halfW = TILE_WIDTH / 2;
+        const halfH = TILE_HEIGHT / 2;
+        const minDiff = Math.ceil((minLocalX - halfW) / halfW) - 2 * margin;
+        const maxDiff = Math.floor((maxLocalX + halfW) / halfW) + 2 * margin;
+        const minSum = Math.ceil((minLocalY - halfH) / halfH) - 1 - 2 * margin;
+        const maxSum = Math.floor((maxLocalY + halfH) / halfH) - 1 + 2 * margin;
+
+        return {
+            minY: Math.max(first, Math.floor((minSum - maxDiff) / 2)),
+            maxY: Math.min(lastY, Math.ceil((maxSum - minDiff) / 2)),
+            rowStart: (y) => Math.max(first, minDiff + y, minSum - y),
+            rowEnd: (y) => Math.min(lastX, maxDiff + y, maxSum - y)
+        };
     }
 
     private calculateTilePosition(x: number, y: number, originX: number, originY: number): { drawX: number, drawY: number } {
@@ -644,11 +1456,13 @@ class DualGridSystem {
         return { drawX, drawY };
     }
 
+    // (x, y) is the draw position; (tileX, tileY) the dual-grid tile, used to pick the tile variant
     private drawTileByRole(
         ctx: CanvasRenderingContext2D,
         x: number, y: number,
         terrainLayer: TerrainType,
-        role: number
+        role: number,
+        tileX: number, tileY: number
     ) {
         // Skip if role is 0 (no corners match)
         if (role === 0) return;
@@ -659,10 +1473,11 @@ class DualGridSystem {
 
         if (this.renderMode === RenderMode.IsometricTextured) {
             // Textured Isometric Mode
+            // Terrains without a texture, and roles missing from an atlas (listed on the bucket
+            // in the config panel), fall back to the flat terrain color
             const assets = terrainAssets.get(terrainLayer);
-            if (!assets) {
-                console.warn(`[RENDER] No assets found for terrain: ${TerrainType[terrainLayer]}, using color fallback`);
-                // Fallback to colored rendering
+            const tileId = assets && pickTileVariant(assets, role, tileX, tileY, this.seed);
+            if (!assets || tileId === undefined || !isAtlasReady(assets)) {
                 ctx.fillStyle = terrainColor;
                 ctx.beginPath();
                 ctx.moveTo(x, y - TILE_HEIGHT / 2);
@@ -674,51 +1489,18 @@ class DualGridSystem {
                 return;
             }
 
-            // Get the tile ID from the wang data
-            const tileId = assets.roleToId.get(role);
-            if (tileId === undefined) {
-                console.warn(`[RENDER] No tile ID mapping for ${TerrainType[terrainLayer]} role ${role}`);
-                return;
-            }
-
-            // Validate image is loaded
-            if (!assets.image.complete) {
-                console.warn(`[RENDER] Image not loaded for ${TerrainType[terrainLayer]}`);
-                return;
-            }
-            if (assets.image.naturalWidth === 0 || assets.image.naturalHeight === 0) {
-                console.warn(`[RENDER] Invalid image dimensions for ${TerrainType[terrainLayer]}: ${assets.image.naturalWidth}x${assets.image.naturalHeight}`);
-                return;
-            }
-
-            // Draw the sprite from the atlas
-            // Tiles are arranged in 2 rows: IDs 0-7 on row 0, IDs 8-14 on row 1
-            // Each row can hold 8 tiles (512px / 64px = 8)
-            const tilesPerRow = 8;
-            const row = Math.floor(tileId / tilesPerRow);
-            const col = tileId % tilesPerRow;
-            const srcX = col * TILE_WIDTH;
-            const srcY = row * TILE_HEIGHT;
-
-            // Validate sprite sheet has enough space for this tile
-            const requiredWidth = srcX + TILE_WIDTH;
-            const requiredHeight = srcY + TILE_HEIGHT;
-            if (assets.image.naturalWidth < requiredWidth || assets.image.naturalHeight < requiredHeight) {
-                console.warn(`[RENDER] Sprite sheet too small for ${TerrainType[terrainLayer]} tile ${tileId} (row ${row}, col ${col}): needs ${requiredWidth}x${requiredHeight}px, has ${assets.image.naturalWidth}x${assets.image.naturalHeight}px`);
-                return;
-            }
+            // Draw the sprite from the atlas, scaled from the atlas tile size to the map tile size
+            const { tileWidth, tileHeight } = assets.layout;
+            const { srcX, srcY } = getTileSource(assets.layout, tileId);
 
             // Center the tile on the draw position
             ctx.drawImage(
                 assets.image,
-                srcX, srcY, TILE_WIDTH, TILE_HEIGHT,
+                srcX, srcY, tileWidth, tileHeight,
                 x - TILE_WIDTH / 2, y - TILE_HEIGHT / 2,
                 TILE_WIDTH, TILE_HEIGHT
             );
 
-            // Log successful draws (comment out once debugging is complete)
-            console.log(`[RENDER] Drew ${TerrainType[terrainLayer]} tile ${tileId} (role ${role}) at grid (${Math.round((x + y/2) / 32)}, ${Math.round((y - x/2) / 32)})`);
-
         } else if (this.renderMode === RenderMode.IsometricColored) {
             // Colored Isometric Mode - draw a diamond with solid color
             ctx.fillStyle = terrainColor;
@@ -754,32 +1536,28 @@ class DualGridSystem {
                 ctx.fillRect(x + half, y + half, half, half);
             }
         }
-        
-        // Restore context state (undo zoom transformation)
-        ctx.restore();
     }
     
-    public exportToImage(): HTMLCanvasElement | null {
-        // Create an offscreen canvas to render the full map
-        const tileWidth = this.renderMode === RenderMode.OrthographicColored ? 40 : TILE_WIDTH;
-        const tileHeight = this.renderMode === RenderMode.OrthographicColored ? 40 : TILE_HEIGHT;
-
-        // Calculate canvas size based on render mode
-        let canvasWidth: number;
-        let canvasHeight: number;
-
+    // Pixel size of the full-map export for the current render mode (also used for the size estimate in exportPng)
+    public getExportSize(): { width: number; height: number } {
         if (this.renderMode === RenderMode.OrthographicColored) {
-            // Orthographic: simple grid
-            canvasWidth = (this.width - 1) * tileWidth;
-            canvasHeight = (this.height - 1) * tileHeight;
-        } else {
-            // Isometric: diamond-shaped projection
-            // Width = (width + height - 1) * (TILE_WIDTH / 2)
-            // Height = (width + height - 1) * (TILE_HEIGHT / 2) + TILE_HEIGHT
-            canvasWidth = (this.width + this.height - 1) * (TILE_WIDTH / 2) + TILE_WIDTH;
-            canvasHeight = (this.width + this.height - 1) * (TILE_HEIGHT / 2) + TILE_HEIGHT;
+            // Orthographic: simple grid of (width - 1) x (height - 1) 40px tiles
+            return { width: (this.width - 1) * 40, height: (this.height - 1) * 40 };
         }
 
+        // Isometric: tile (x, y) is centered at ((x - y) * TILE_WIDTH/2, (x + y + 1) * TILE_HEIGHT/2)
+        // and spans one tile around that. With x in 0..width-2 and y in 0..height-2 the diamond is
+        // (width + height - 2) half-tiles across and down - for any aspect ratio
+        return {
+            width: (this.width + this.height - 2) * (TILE_WIDTH / 2),
+            height: (this.width + this.height - 2) * (TILE_HEIGHT / 2)
+        };
+    }
+
+    public exportToImage(): HTMLCanvasElement | null {
+        // Create an offscreen canvas to render the full map
+        const { width: canvasWidth, height: canvasHeight } = this.getExportSize();
+
         // Check if canvas size exceeds browser limits
         // Most browsers support max 16384x16384, but we'll use a conservative limit
         const MAX_DIMENSION = 16384;
@@ -807,11 +1585,11 @@ class DualGridSystem {
 
         if (!assetsLoaded) return exportCanvas;
 
-        // Calculate origin (center of canvas, no camera offset)
-        const originX = canvasWidth / 2;
-        const originY = this.renderMode === RenderMode.OrthographicColored
-            ? 0  // Top-left for orthographic
-            : canvasHeight / 2 - (this.height - 1) * (TILE_HEIGHT / 2) / 2;  // Center vertically for isometric
+        // Calculate origin (no camera offset)
+        // Orthographic tiles are drawn from their top-left corner; in isometric the leftmost tile
+        // is (0, height - 2), whose left edge is (height - 1) half-tiles left of grid point (0, 0)
+        const originX = this.renderMode === RenderMode.OrthographicColored ? 0 : (this.height - 1) * (TILE_WIDTH / 2);
+        const originY = 0;
 
         // PASS 1: BASE FULL TILES
         if (this.showBaseLayer) {
@@ -824,7 +1602,7 @@ class DualGridSystem {
 
                     const minTerrain = Math.min(tl, tr, bl, br);
                     const { drawX, drawY } = this.calculateExportTilePosition(x, y, originX, originY);
-                    this.drawTileByRoleExport(exportCtx, drawX, drawY, minTerrain, 15);
+                    this.drawTileByRoleExport(exportCtx, drawX, drawY, minTerrain, 15, x, y);
                 }
             }
         }
@@ -848,7 +1626,7 @@ class DualGridSystem {
                         if (role === 0 || role === 15) continue;
 
                         const { drawX, drawY } = this.calculateExportTilePosition(x, y, originX, originY);
-                        this.drawTileByRoleExport(exportCtx, drawX, drawY, currentLayer, role);
+                        this.drawTileByRoleExport(exportCtx, drawX, drawY, currentLayer, role, x, y);
                     }
                 }
             }
@@ -877,7 +1655,8 @@ class DualGridSystem {
         ctx: CanvasRenderingContext2D,
         x: number, y: number,
         terrainLayer: TerrainType,
-        role: number
+        role: number,
+        tileX: number, tileY: number
     ) {
         if (role === 0) return;
 
@@ -887,8 +1666,9 @@ class DualGridSystem {
 
         if (this.renderMode === RenderMode.IsometricTextured) {
             const assets = terrainAssets.get(terrainLayer);
-            if (!assets || !assets.image.complete) {
-                // Fallback to colored rendering if texture not available
+            const tileId = assets && pickTileVariant(assets, role, tileX, tileY, this.seed);
+            if (!assets || tileId === undefined || !isAtlasReady(assets)) {
+                // Fallback to colored rendering if texture (or this role's tile) not available
                 ctx.fillStyle = terrainColor;
                 ctx.beginPath();
                 ctx.moveTo(x, y - TILE_HEIGHT / 2);
@@ -900,18 +1680,11 @@ class DualGridSystem {
                 return;
             }
 
-            const tileId = assets.roleToId.get(role);
-            if (tileId === undefined) return;
-
-            const tilesPerRow = 8;
-            const row = Math.floor(tileId / tilesPerRow);
-            const col = tileId % tilesPerRow;
-            const srcX = col * TILE_WIDTH;
-            const srcY = row * TILE_HEIGHT;
+            const { srcX, srcY } = getTileSource(assets.layout, tileId);
 
             ctx.drawImage(
                 assets.image,
-                srcX, srcY, TILE_WIDTH, TILE_HEIGHT,
+                srcX, srcY, assets.layout.tileWidth, assets.layout.tileHeight,
                 x - TILE_WIDTH / 2, y - TILE_HEIGHT / 2,
                 TILE_WIDTH, TILE_HEIGHT
             );
@@ -936,6 +1709,263 @@ class DualGridSystem {
         }
     }
 
+    // Wang role (corner bitmask) of dual-grid tile (x, y) for one terrain layer
+    // Bit 1 = Top (tl), Bit 2 = Right (tr), Bit 4 = Bottom (bl), Bit 8 = Left (br)
+    private getLayerRole(x: number, y: number, layer: TerrainType): number {
+        let role = 0;
+        if (this.getCell(x, y) >= layer) role |= 1;
+        if (this.getCell(x + 1, y) >= layer) role |= 2;
+        if (this.getCell(x + 1, y + 1) >= layer) role |= 4;
+        if (this.getCell(x, y + 1) >= layer) role |= 8;
+        return role;
+    }
+
+    // Build a Tiled map that reproduces the Isometric Textured render:
+    // a base layer of role-15 tiles plus one tile layer per transition layer,
+    // with one tileset (and Wang set) per terrain atlas
+    public exportToTiled(): TiledExport {
+        const mapWidth = this.width - 1;
+        const mapHeight = this.height - 1;
+
+        const tilesets: TiledTileset[] = [];
+        const images: TiledExport['images'] = [];
+        const firstGids = new Map<TerrainType, number>();
+        const missingTerrains: TerrainType[] = [];
+        const usedFileNames = new Set<string>();
+        let nextGid = 1;
+
+        for (const bucket of this.buckets) {
+            const assets = terrainAssets.get(bucket.terrainType);
+            if (!assets || assets.image.naturalWidth === 0) {
+                missingTerrains.push(bucket.terrainType);
+                continue;
+            }
+
+            const { columns, tileCount, tileWidth, tileHeight, margin, spacing } = assets.layout;
+            const slug = bucket.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'terrain';
+            let fileName = `${slug}.png`;
+            if (usedFileNames.has(fileName)) fileName = `${slug}-${bucket.terrainType}.png`;
+            usedFileNames.add(fileName);
+
+            // Tiled corner wangid order: [top, top-right, right, bottom-right, bottom, bottom-left, left, top-left]
+            // In isometric map space our visual Top/Right/Bottom/Left corners are the tile's
+            // top-left/top-right/bottom-right/bottom-left corners respectively
+            const variants = [...assets.roleVariants.entries()];
+            const wangtiles = variants.flatMap(([role, roleVariants]) => roleVariants.map(variant => ({
+                tileid: variant.id,
+                wangid: [0, role & 2 ? 1 : 0, 0, role & 4 ? 1 : 0, 0, role & 8 ? 1 : 0, 0, role & 1 ? 1 : 0]
+            })));
+            const tiles = variants.flatMap(([, roleVariants]) => roleVariants.length > 1
+                ? roleVariants.map(variant => ({ id: variant.id, probability: variant.weight }))
+                : []);
+
+            tilesets.push({
+                firstgid: nextGid,
+                name: bucket.name,
+                tilewidth: tileWidth,
+                tileheight: tileHeight,
+                tilecount: tileCount,
+                columns,
+                image: fileName,
+                imagewidth: assets.image.naturalWidth,
+                imageheight: assets.image.naturalHeight,
+                margin,
+                spacing,
+                ...(tiles.length > 0 ? { tiles } : {}),
+                wangsets: [{
+                    name: bucket.name,
+                    type: 'corner',
+                    tile: assets.roleToId.get(15) ?? -1,
+                    colors: [{ name: bucket.name, color: bucket.color, tile: assets.roleToId.get(15) ?? -1, probability: 1 }],
+                    wangtiles
+                }]
+            });
+            images.push({ fileName, image: assets.image });
+            firstGids.set(bucket.terrainType, nextGid);
+            nextGid += tileCount;
+        }
+
+        // Global tile id for a terrain role at tile (x, y) (0 = empty cell in Tiled)
+        const gidFor = (terrain: TerrainType, role: number, x: number, y: number): number => {
+            const firstGid = firstGids.get(terrain);
+            const assets = terrainAssets.get(terrain);
+            const tileId = assets && pickTileVariant(assets, role, x, y, this.seed);
+            return firstGid === undefined || tileId === undefined ? 0 : firstGid + tileId;
+        };
+
+        const layers: TiledLayer[] = [];
+        let nextLayerId = 1;
+
+        // BASE LAYER - lowest corner terrain as a full tile
+        const baseData: number[] = [];
+        for (let y = 0; y < mapHeight; y++) {
+            for (let x = 0; x < mapWidth; x++) {
+                const minTerrain = Math.min(this.getCell(x, y), this.getCell(x + 1, y), this.getCell(x + 1, y + 1), this.getCell(x, y + 1));
+                baseData.push(gidFor(minTerrain, 15, x, y));
+            }
+        }
+        layers.push({ id: nextLayerId++, name: 'Base', type: 'tilelayer', width: mapWidth, height: mapHeight, x: 0, y: 0, opacity: 1, visible: true, data: baseData });
+
+        // TRANSITION LAYERS - same splatting order as render()
+        for (const currentLayer of this.getTransitionLayerOrder()) {
+            const data: number[] = [];
+            for (let y = 0; y < mapHeight; y++) {
+                for (let x = 0; x < mapWidth; x++) {
+                    const role = this.getLayerRole(x, y, currentLayer);
+                    data.push(role === 0 || role === 15 ? 0 : gidFor(currentLayer, role, x, y));
+                }
+            }
+            const name = this.buckets.find(b => b.terrainType === currentLayer)?.name ?? `Terrain ${currentLayer}`;
+            layers.push({ id: nextLayerId++, name: `${name} Transitions`, type: 'tilelayer', width: mapWidth, height: mapHeight, x: 0, y: 0, opacity: 1, visible: true, data });
+        }
+
+        // RAW WORLD CELLS - stored as properties on an empty object layer so game code can read the source grid
+        layers.push({
+            id: nextLayerId++,
+            name: 'World Cells',
+            type: 'objectgroup',
+            x: 0,
+            y: 0,
+            opacity: 1,
+            visible: false,
+            draworder: 'topdown',
+            objects: [],
+            properties: [
+                { name: 'cells', type: 'string', value: this.cells.join(',') },
+                { name: 'cellsWidth', type: 'int', value: this.width },
+                { name: 'cellsHeight', type: 'int', value: this.height },
+                { name: 'terrainTypes', type: 'string', value: JSON.stringify(Object.fromEntries(this.buckets.map(b => [b.terrainType, b.name]))) }
+            ]
+        });
+
+        return {
+            map: {
+                type: 'map',
+                version: '1.10',
+                tiledversion: '1.10.2',
+                orientation: 'isometric',
+                renderorder: 'right-down',
+                width: mapWidth,
+                height: mapHeight,
+                tilewidth: TILE_WIDTH,
+                tileheight: TILE_HEIGHT,
+                infinite: false,
+                nextlayerid: nextLayerId,
+                nextobjectid: 1,
+                properties: [{ name: 'seed', type: 'float', value: this.seed }],
+                tilesets,
+                layers
+            },
+            images,
+            missingTerrains
+        };
+    }
+
+    // Per-tile base terrain plus each transition layer's role and atlas tile id,
+    // i.e. getDebugInfo() for every tile, packed into typed arrays
+    public exportRenderData(): RenderData {
+        const mapWidth = this.width - 1;
+        const mapHeight = this.height - 1;
+        const tileCount = mapWidth * mapHeight;
+
+        const baseTerrain = new Uint16Array(tileCount);
+        const baseTileIds = new Int16Array(tileCount);
+        for (let y = 0; y < mapHeight; y++) {
+            for (let x = 0; x < mapWidth; x++) {
+                const i = y * mapWidth + x;
+                const minTerrain = Math.min(this.getCell(x, y), this.getCell(x + 1, y), this.getCell(x + 1, y + 1), this.getCell(x, y + 1));
+                baseTerrain[i] = minTerrain;
+                const baseAssets = terrainAssets.get(minTerrain);
+                baseTileIds[i] = (baseAssets && pickTileVariant(baseAssets, 15, x, y, this.seed)) ?? -1;
+            }
+        }
+
+        const layers: RenderDataLayer[] = this.getTransitionLayerOrder().map(terrain => {
+            const roles = new Uint8Array(tileCount);
+            const tileIds = new Int16Array(tileCount).fill(-1);
+            const assets = terrainAssets.get(terrain);
+
+            for (let y = 0; y < mapHeight; y++) {
+                for (let x = 0; x < mapWidth; x++) {
+                    const i = y * mapWidth + x;
+                    const role = this.getLayerRole(x, y, terrain);
+                    roles[i] = role;
+                    if (role !== 0 && role !== 15) {
+                        tileIds[i] = (assets && pickTileVariant(assets, role, x, y, this.seed)) ?? -1;
+                    }
+                }
+            }
+
+            return { terrain, roles, tileIds };
+        });
+
+        return {
+            width: mapWidth,
+            height: mapHeight,
+            tileWidth: TILE_WIDTH,
+            tileHeight: TILE_HEIGHT,
+            baseTerrain,
+            baseTileIds,
+            layers
+        };
+    }
+
+    // Move the camera so grid point (gridX, gridY) is at the center of the screen.
+    // Inverse of the viewport center calculation in renderMinimap (independent of zoom)
+    public centerOnGrid(gridX: number, gridY: number) {
+        if (this.renderMode === RenderMode.OrthographicColored) {
+            this.cameraOffsetX = -gridX * 40;
+            this.cameraOffsetY = -gridY * 40;
+        } else {
+            this.cameraOffsetX = -(gridX - gridY) * (TILE_WIDTH / 2);
+            this.cameraOffsetY = -(gridX + gridY) * (TILE_HEIGHT / 2);
+        }
+    }
+
+    // Grid point at the center of the screen - inverse of centerOnGrid
+    private getCameraCenterGrid(): { x: number; y: number } {
+        if (this.renderMode === RenderMode.OrthographicColored) {
+            return { x: -this.cameraOffsetX / 40, y: -this.cameraOffsetY / 40 };
+        }
+        const diff = -this.cameraOffsetX / (TILE_WIDTH / 2);
+        const sum = -this.cameraOffsetY / (TILE_HEIGHT / 2);
+        return { x: (sum + diff) / 2, y: (sum - diff) / 2 };
+    }
+
+    // Grid area shown on the minimap: the whole map, or in infinite mode a window around the camera
+    public getMinimapWindow(): MinimapWindow {
+        if (!this.world) return { x: 0, y: 0, width: this.width, height: this.height };
+        const center = this.getCameraCenterGrid();
+        return {
+            x: Math.round(center.x) - MINIMAP_WORLD_WINDOW / 2,
+            y: Math.round(center.y) - MINIMAP_WORLD_WINDOW / 2,
+            width: MINIMAP_WORLD_WINDOW,
+            height: MINIMAP_WORLD_WINDOW
+        };
+    }
+
+    // Place the minimap window in a width x height minimap: one scale for both axes so non-square
+    // maps keep their aspect ratio, centered with letterboxing on the short axis
+    private getMinimapLayout(width: number, height: number, view: MinimapWindow = this.getMinimapWindow()) {
+        const scale = Math.min(width / view.width, height / view.height);
+        return {
+            view,
+            scale,
+            left: (width - view.width * scale) / 2,
+            top: (height - view.height * scale) / 2
+        };
+    }
+
+    // Convert a minimap pixel to (continuous) grid coordinates - inverse of the cell placement in renderMinimap
+    // (against `fixedWindow` when given, e.g. the infinite-mode window as it was when a drag started)
+    public minimapToGrid(minimapX: number, minimapY: number, width: number, height: number, fixedWindow?: MinimapWindow): { x: number; y: number } {
+        const { view, scale, left, top } = this.getMinimapLayout(width, height, fixedWindow);
+        return {
+            x: view.x + (minimapX - left) / scale,
+            y: view.y + (minimapY - top) / scale
+        };
+    }
+
     public renderMinimap(ctx: CanvasRenderingContext2D, width: number, height: number, canvasWidth: number, canvasHeight: number) {
         // Clear minimap
         ctx.fillStyle = '#0d0d0d';
@@ -944,8 +1974,9 @@ class DualGridSystem {
         if (!assetsLoaded) return;
         
         // Calculate pixel size for each grid cell
-        const pixelWidth = width / this.width;
-        const pixelHeight = height / this.height;
+        const { view, scale, left, top } = this.getMinimapLayout(width, height);
+        const pixelWidth = scale;
+        const pixelHeight = scale;
         
         // Build terrain colors map from current buckets (brighter versions for minimap)
         const terrainColors: Record<TerrainType, string> = {} as Record<TerrainType, string>;
@@ -955,13 +1986,15 @@ class DualGridSystem {
         });
         
         // Draw each cell as a colored pixel
-        for (let y = 0; y < this.height; y++) {
-            for (let x = 0; x < this.width; x++) {
+        // In infinite mode only loaded chunks are drawn - the minimap doesn't request new ones
+        for (let y = view.y; y < view.y + view.height; y++) {
+            for (let x = view.x; x < view.x + view.width; x++) {
+                if (this.world && !this.world.isLoaded(x, y)) continue;
                 const terrain = this.getCell(x, y);
                 ctx.fillStyle = terrainColors[terrain];
                 ctx.fillRect(
-                    Math.floor(x * pixelWidth),
-                    Math.floor(y * pixelHeight),
+                    Math.floor(left + (x - view.x) * pixelWidth),
+                    Math.floor(top + (y - view.y) * pixelHeight),
                     Math.ceil(pixelWidth),
                     Math.ceil(pixelHeight)
                 );
@@ -974,56 +2007,38 @@ class DualGridSystem {
         let visibleTilesX: number;
         let visibleTilesY: number;
 
+        // The screen center maps to local map pixel (-cameraOffsetX, -cameraOffsetY) at any zoom
+        // (screen = center + zoom * (cameraOffset + local)); the visible extent shrinks with zoom
         if (this.renderMode === RenderMode.OrthographicColored) {
             // ORTHOGRAPHIC MODE - simple direct calculation
-            // Origin is at center of canvas, offset by camera
-            const originX = canvasWidth / 2 + this.cameraOffsetX;
-            const originY = canvasHeight / 2 + this.cameraOffsetY;
-
             // Tile size in orthographic mode
             const orthoTileSize = 40;
 
-            // Top-left corner of viewport in screen space is at (0, 0)
-            // Convert to grid coordinates
-            const viewportLeft = -originX / (orthoTileSize * this.zoomLevel);
-            const viewportTop = -originY / (orthoTileSize * this.zoomLevel);
-
             // How many tiles fit in the viewport
             visibleTilesX = canvasWidth / (orthoTileSize * this.zoomLevel);
             visibleTilesY = canvasHeight / (orthoTileSize * this.zoomLevel);
 
-            // Center is at the middle of the viewport
-            centerGridX = viewportLeft + visibleTilesX / 2;
-            centerGridY = viewportTop + visibleTilesY / 2;
+            // Center of the viewport in grid coordinates
+            centerGridX = -this.cameraOffsetX / orthoTileSize;
+            centerGridY = -this.cameraOffsetY / orthoTileSize;
         } else {
             // ISOMETRIC MODE - requires inverse transformation
-            // Use the same logic as screenToGrid function
-
-            const originX = canvasWidth / 2 + this.cameraOffsetX;
-            const originY = canvasHeight / 2 + this.cameraOffsetY;
-
-            // Find the grid coordinates of the viewport center (center of screen)
-            // Center of screen is at (canvasWidth/2, canvasHeight/2)
-            const centerScreenX = canvasWidth / 2;
-            const centerScreenY = canvasHeight / 2;
+            // Use the same logic as screenToGridPoint function
+            const relX = -this.cameraOffsetX;
+            const relY = -this.cameraOffsetY;
 
-            // Convert to position relative to origin
-            const relX = centerScreenX - originX;
-            const relY = centerScreenY - originY;
-
-            // Apply inverse isometric transformation (accounting for zoom)
+            // Apply inverse isometric transformation (in unzoomed map pixels)
             // Original projection: drawX = (gridX - gridY) * (TILE_WIDTH/2), drawY = (gridX + gridY) * (TILE_HEIGHT/2)
             // Inverse: gridX = (relX/(TILE_WIDTH/2) + relY/(TILE_HEIGHT/2)) / 2
             //          gridY = (relY/(TILE_HEIGHT/2) - relX/(TILE_WIDTH/2)) / 2
-            const scaledTileWidth = TILE_WIDTH * this.zoomLevel;
-            const scaledTileHeight = TILE_HEIGHT * this.zoomLevel;
-
-            centerGridX = (relX / (scaledTileWidth / 2) + relY / (scaledTileHeight / 2)) / 2;
-            centerGridY = (relY / (scaledTileHeight / 2) - relX / (scaledTileWidth / 2)) / 2;
+            centerGridX = (relX / (TILE_WIDTH / 2) + relY / (TILE_HEIGHT / 2)) / 2;
+            centerGridY = (relY / (TILE_HEIGHT / 2) - relX / (TILE_WIDTH / 2)) / 2;
 
             // Calculate visible area - approximate based on screen dimensions
             // In isometric view, we see roughly a diamond-shaped area
             // Approximate with a rectangle that's larger to account for diamond shape
+            const scaledTileWidth = TILE_WIDTH * this.zoomLevel;
+            const scaledTileHeight = TILE_HEIGHT * this.zoomLevel;
             visibleTilesX = canvasWidth / (scaledTileWidth) * 2.0;
             visibleTilesY = canvasHeight / (scaledTileHeight) * 2.0;
         }
@@ -1035,11 +2050,11 @@ class DualGridSystem {
 
         if (this.renderMode === RenderMode.OrthographicColored) {
             // Draw rectangle for orthographic view
-            const viewportGridLeft = centerGridX - visibleTilesX / 2;
-            const viewportGridTop = centerGridY - visibleTilesY / 2;
+            const viewportGridLeft = centerGridX - view.x - visibleTilesX / 2;
+            const viewportGridTop = centerGridY - view.y - visibleTilesY / 2;
 
-            const viewportMinimapX = viewportGridLeft * pixelWidth;
-            const viewportMinimapY = viewportGridTop * pixelHeight;
+            const viewportMinimapX = left + viewportGridLeft * pixelWidth;
+            const viewportMinimapY = top + viewportGridTop * pixelHeight;
             const viewportMinimapWidth = visibleTilesX * pixelWidth;
             const viewportMinimapHeight = visibleTilesY * pixelHeight;
 
@@ -1060,8 +2075,8 @@ class DualGridSystem {
             // Draw diamond for isometric view
             // In isometric, the viewport is diamond-shaped in grid space
             // Diamond corners: top, right, bottom, left
-            const centerMinimapX = centerGridX * pixelWidth;
-            const centerMinimapY = centerGridY * pixelHeight;
+            const centerMinimapX = left + (centerGridX - view.x) * pixelWidth;
+            const centerMinimapY = top + (centerGridY - view.y) * pixelHeight;
             const halfWidth = (visibleTilesX / 2) * pixelWidth;
             const halfHeight = (visibleTilesY / 2) * pixelHeight;
 
@@ -1078,70 +2093,457 @@ class DualGridSystem {
     }
 }
 
-// --- APP SETUP ---
-
-const canvas = document.getElementById('gridCanvas') as HTMLCanvasElement;
-const ctx = canvas.getContext('2d')!;
+// --- TILED TMX WRITER ---
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
 
-// Size canvas to fill available space (window height minus controls)
-function resizeCanvas() {
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
+function tiledPropertiesToXml(properties: TiledProperty[], indent: string): string {
+    if (properties.length === 0) return '';
+    const props = properties.map(p =>
+        `${indent} <property name="${escapeXml(p.name)}"${p.type === 'string' ? '' : ` type="${p.type}"`} value="${escapeXml(String(p.value))}"/>`
+    );
+    return `${indent}<properties>\n${props.join('\n')}\n${indent}</properties>\n`;
 }
 
-resizeCanvas();
+// Serialize the same structure used for Tiled JSON as a TMX document (CSV-encoded layers, embedded tilesets)
+function tiledMapToTmx(map: TiledMap): string {
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += `<map version="${map.version}" tiledversion="${map.tiledversion}" orientation="${map.orientation}" renderorder="${map.renderorder}" ` +
+        `width="${map.width}" height="${map.height}" tilewidth="${map.tilewidth}" tileheight="${map.tileheight}" infinite="0" ` +
+        `nextlayerid="${map.nextlayerid}" nextobjectid="${map.nextobjectid}">\n`;
+    xml += tiledPropertiesToXml(map.properties, ' ');
+
+    for (const tileset of map.tilesets) {
+        xml += ` <tileset firstgid="${tileset.firstgid}" name="${escapeXml(tileset.name)}" tilewidth="${tileset.tilewidth}" tileheight="${tileset.tileheight}" ` +
+            `spacing="${tileset.spacing}" margin="${tileset.margin}" tilecount="${tileset.tilecount}" columns="${tileset.columns}">\n`;
+        xml += `  <image source="${escapeXml(tileset.image)}" width="${tileset.imagewidth}" height="${tileset.imageheight}"/>\n`;
+        for (const tile of tileset.tiles ?? []) {
+            xml += `  <tile id="${tile.id}" probability="${tile.probability}"/>\n`;
+        }
+        xml += '  <wangsets>\n';
+        for (const wangset of tileset.wangsets) {
+            xml += `   <wangset name="${escapeXml(wangset.name)}" type="${wangset.type}" tile="${wangset.tile}">\n`;
+            for (const color of wangset.colors) {
+                xml += `    <wangcolor name="${escapeXml(color.name)}" color="${color.color}" tile="${color.tile}" probability="${color.probability}"/>\n`;
+            }
+            for (const wangtile of wangset.wangtiles) {
+                xml += `    <wangtile tileid="${wangtile.tileid}" wangid="${wangtile.wangid.join(',')}"/>\n`;
+            }
+            xml += '   </wangset>\n';
+        }
+        xml += '  </wangsets>\n';
+        xml += ' </tileset>\n';
+    }
 
-const grid = new DualGridSystem(GRID_SIZE, GRID_SIZE);
+    for (const layer of map.layers) {
+        if (layer.type === 'tilelayer') {
+            xml += ` <layer id="${layer.id}" name="${escapeXml(layer.name)}" width="${layer.width}" height="${layer.height}"${layer.visible ? '' : ' visible="0"'}>\n`;
+            const rows: string[] = [];
+            for (let y = 0; y < layer.height; y++) {
+                rows.push(layer.data.slice(y * layer.width, (y + 1) * layer.width).join(','));
+            }
+            xml += `  <data encoding="csv">\n${rows.join(',\n')}\n</data>\n`;
+            xml += ' </layer>\n';
+        } else {
+            xml += ` <objectgroup id="${layer.id}" name="${escapeXml(layer.name)}"${layer.visible ? '' : ' visible="0"'}>\n`;
+            xml += tiledPropertiesToXml(layer.properties, '  ');
+            xml += ' </objectgroup>\n';
+        }
+    }
 
-// Preview minimap setup (used in config panel for live preview)
-const previewMinimapCanvas = document.getElementById('minimapCanvas') as HTMLCanvasElement;
-const previewMinimapCtx = previewMinimapCanvas.getContext('2d')!;
-previewMinimapCanvas.width = 250;
-previewMinimapCanvas.height = 250;
+    xml += '</map>\n';
+    return xml;
+}
 
-// World minimap setup (standalone minimap overlay showing actual map)
-const worldMinimapCanvas = document.getElementById('worldMinimapCanvas') as HTMLCanvasElement;
-const worldMinimapCtx = worldMinimapCanvas.getContext('2d')!;
-worldMinimapCanvas.width = 250;
-worldMinimapCanvas.height = 250;
+// --- RENDER DATA SERIALIZATION ---
+// Compact JSON: plain number arrays plus terrain names so the file is self-describing
+function renderDataToJson(data: RenderData, buckets: TerrainBucket[]): string {
+    return JSON.stringify({
+        format: RENDER_DATA_FORMAT,
+        version: RENDER_DATA_VERSION,
+        width: data.width,
+        height: data.height,
+        tileWidth: data.tileWidth,
+        tileHeight: data.tileHeight,
+        terrains: buckets.map(b => ({ id: b.terrainType, name: b.name })),
+        base: {
+            terrain: Array.from(data.baseTerrain),
+            tileId: Array.from(data.baseTileIds)
+        },
+        layers: data.layers.map(layer => ({
+            terrain: layer.terrain,
+            role: Array.from(layer.roles),
+            tileId: Array.from(layer.tileIds)
+        }))
+    });
+}
 
-// Create a separate grid for live preview in config panel
-let previewGrid: DualGridSystem | null = null;
+// Binary layout (all little-endian, N = width * height):
+//   char[4]  magic "DGRD"
+//   uint16   version
+//   uint16   layer count (L)
+//   uint32   width, uint32 height   (dual-grid tiles)
+//   uint16   tile width, uint16 tile height
+//   uint16[N] base terrain, int16[N] base tile id
+//   L x { uint16 terrain, uint8[N] role, int16[N] tile id }
+function renderDataToBinary(data: RenderData): ArrayBuffer {
+    const n = data.width * data.height;
+    const headerBytes = 4 + 2 + 2 + 4 + 4 + 2 + 2;
+    const totalBytes = headerBytes + n * 4 + data.layers.length * (2 + n * 3);
+
+    const buffer = new ArrayBuffer(totalBytes);
+    const view = new DataView(buffer);
+    let offset = 0;
+
+    for (let i = 0; i < 4; i++) view.setUint8(offset++, RENDER_DATA_MAGIC.charCodeAt(i));
+    view.setUint16(offset, RENDER_DATA_VERSION, true); offset += 2;
+    view.setUint16(offset, data.layers.length, true); offset += 2;
+    view.setUint32(offset, data.width, true); offset += 4;
+    view.setUint32(offset, data.height, true); offset += 4;
+    view.setUint16(offset, data.tileWidth, true); offset += 2;
+    view.setUint16(offset, data.tileHeight, true); offset += 2;
+
+    for (let i = 0; i < n; i++, offset += 2) view.setUint16(offset, data.baseTerrain[i], true);
+    for (let i = 0; i < n; i++, offset += 2) view.setInt16(offset, data.baseTileIds[i], true);
+
+    for (const layer of data.layers) {
+        view.setUint16(offset, layer.terrain, true); offset += 2;
+        for (let i = 0; i < n; i++) view.setUint8(offset++, layer.roles[i]);
+        for (let i = 0; i < n; i++, offset += 2) view.setInt16(offset, layer.tileIds[i], true);
+    }
 
-// Get config panel and minimap references early for use in loop
-const configPanel = document.getElementById('configPanel')!;
-const minimap = document.getElementById('minimap')!;
+    return buffer;
+}
 
-// --- LOOP ---
-function loop() {
-    // Background
-    ctx.fillStyle = "#0d0d0d";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+// Re-encode a loaded atlas as PNG (works for both served files and data URLs)
+function imageToCanvas(image: HTMLImageElement): HTMLCanvasElement {
+    const atlasCanvas = document.createElement('canvas');
+    atlasCanvas.width = image.naturalWidth;
+    atlasCanvas.height = image.naturalHeight;
+    atlasCanvas.getContext('2d')!.drawImage(image, 0, 0);
+    return atlasCanvas;
+}
 
-    if (assetsLoaded) {
-        grid.render(ctx, canvas.width, canvas.height);
+function imageToPngBlob(image: HTMLImageElement): Promise<Blob | null> {
+    const atlasCanvas = imageToCanvas(image);
+    return new Promise(resolve => atlasCanvas.toBlob(resolve, 'image/png'));
+}
 
-        // Render preview minimap if config panel is open
-        if (configPanel.classList.contains('open') && previewGrid) {
-            previewGrid.renderMinimap(previewMinimapCtx, previewMinimapCanvas.width, previewMinimapCanvas.height, canvas.width, canvas.height);
-        }
+// Inline PNG copy of an atlas, e.g. to embed a built-in pack in a project once it has been remapped
+function imageToDataUrl(image: HTMLImageElement): string {
+    return imageToCanvas(image).toDataURL('image/png');
+}
 
-        // Render world minimap if minimap overlay is open
-        if (minimap.classList.contains('open')) {
-            grid.renderMinimap(worldMinimapCtx, worldMinimapCanvas.width, worldMinimapCanvas.height, canvas.width, canvas.height);
-        }
-    } else {
-        // Show loading message
-        ctx.fillStyle = "#eee";
-        ctx.font = "20px 'Segoe UI'";
-        ctx.textAlign = "center";
-        ctx.fillText("Loading textures...", canvas.width / 2, canvas.height / 2);
-    }
+// Trigger a browser download for a blob
+function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+}
 
-    requestAnimationFrame(loop);
+// --- GENERATION WORKER ---
+// Buckets may carry File objects and texture data URLs the worker doesn't need
+function toWorkerConfig(config: MapConfig): MapConfig {
+    return {
+        ...config,
+        buckets: config.buckets.map(({ name, color, threshold, terrainType }) => ({ name, color, threshold, terrainType }))
+    };
 }
 
-// Generate dynamic CSS for terrain colors
+// Runs generateMap in src/generation.worker.ts. Each client handles one job at a time:
+// starting a new job terminates the worker if it is still busy, so dragging a slider
+// never queues up stale previews behind each other.
+class GenerationClient {
+    private worker: Worker | null = null;
+    private nextId = 0;
+    private cancelPending: (() => void) | null = null;
+
+    // Resolves with the generated map, or null if a newer job (or cancel()) superseded it
+    public generate(config: MapConfig, width: number, height: number,
+        onProgress?: (stage: string, progress: number) => void): Promise<GenerationResult | null> {
+        this.cancel();
+
+        const worker = this.worker ?? new Worker(new URL('./generation.worker.ts', import.meta.url), { type: 'module' });
+        this.worker = worker;
+        const id = ++this.nextId;
+
+        const request: GenerationRequest = { type: 'map', id, width, height, config: toWorkerConfig(config) };
+
+        return new Promise((resolve, reject) => {
+            this.cancelPending = () => resolve(null);
+
+            worker.onmessage = (e: MessageEvent<GenerationMessage>) => {
+                const message = e.data;
+                if (message.id !== id) return;
+
+                switch (message.type) {
+                    case 'progress':
+                        onProgress?.(message.stage, message.progress);
+                        break;
+                    case 'done':
+                        this.cancelPending = null;
+                        resolve(message.result);
+                        break;
+                    case 'error':
+                        this.cancelPending = null;
+                        reject(new Error(message.message));
+                        break;
+                }
+            };
+            worker.onerror = (e) => {
+                // A crashed worker can't be reused
+                this.cancelPending = null;
+                this.worker?.terminate();
+                this.worker = null;
+                reject(new Error(e.message || 'Generation worker failed'));
+            };
+
+            worker.postMessage(request);
+        });
+    }
+
+    // Abandon the running job, if any (its promise resolves with null)
+    public cancel() {
+        if (!this.cancelPending) return;
+        this.worker?.terminate();
+        this.worker = null;
+        this.cancelPending();
+        this.cancelPending = null;
+    }
+}
+
+// Streams infinite-world chunks from a worker of its own, so cancelling a map preview in
+// GenerationClient never drops chunk requests. Requests are answered in the order they were sent.
+class ChunkClient {
+    private worker: Worker;
+
+    constructor(config: MapConfig, seed: number, onChunk: (message: ChunkMessage) => void) {
+        this.worker = new Worker(new URL('./generation.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (e: MessageEvent<ChunkMessage>) => onChunk(e.data);
+        this.worker.onerror = (e) => console.error('[WORLD] Chunk worker failed:', e.message);
+        this.post({ type: 'world', config: toWorkerConfig(config), seed });
+    }
+
+    public request(chunkX: number, chunkY: number) {
+        this.post({ type: 'chunk', chunkX, chunkY, size: WORLD_CHUNK_SIZE });
+    }
+
+    public terminate() {
+        this.worker.terminate();
+    }
+
+    private post(request: ChunkRequest) {
+        this.worker.postMessage(request);
+    }
+}
+
+// --- UNDO / REDO HISTORY ---
+// A reversible operation. Commands store diffs (not full snapshots) wherever possible
+// and report their approximate size so the history can stay inside a memory budget.
+interface HistoryCommand {
+    label: string;
+    timestamp: number;
+    bytes: number;
+    undo(): void;
+    redo(): void;
+}
+
+class MapHistory {
+    private entries: HistoryCommand[] = [];
+    private cursor: number = 0; // Number of entries currently applied
+    private totalBytes: number = 0;
+    private locked: boolean = false;
+
+    constructor(private maxBytes: number, private onChange: () => void) {}
+
+    // While locked (a main-map job is running) undo/redo/jumpTo do nothing, so the job's step
+    // is recorded against the map it started from
+    public setLocked(locked: boolean) {
+        this.locked = locked;
+        this.onChange();
+    }
+
+    public isLocked(): boolean {
+        return this.locked;
+    }
+
+    public record(command: HistoryCommand) {
+        // Recording after an undo discards the redo branch
+        for (const dropped of this.entries.splice(this.cursor)) {
+            this.totalBytes -= dropped.bytes;
+        }
+
+        this.entries.push(command);
+        this.cursor = this.entries.length;
+        this.totalBytes += command.bytes;
+
+        // Evict the oldest entries until we're back under budget (always keep the newest one)
+        while (this.totalBytes > this.maxBytes && this.entries.length > 1) {
+            const evicted = this.entries.shift()!;
+            this.totalBytes -= evicted.bytes;
+            this.cursor--;
+        }
+
+        this.onChange();
+    }
+
+    public undo(): boolean {
+        if (this.locked || this.cursor === 0) return false;
+        this.cursor--;
+        this.entries[this.cursor].undo();
+        this.onChange();
+        return true;
+    }
+
+    public redo(): boolean {
+        if (this.locked || this.cursor >= this.entries.length) return false;
+        this.entries[this.cursor].redo();
+        this.cursor++;
+        this.onChange();
+        return true;
+    }
+
+    // Jump to the state after `appliedCount` entries (0 = before the first recorded entry)
+    public jumpTo(appliedCount: number) {
+        if (this.locked) return;
+        const target = Math.max(0, Math.min(this.entries.length, appliedCount));
+        while (this.cursor > target) {
+            this.cursor--;
+            this.entries[this.cursor].undo();
+        }
+        while (this.cursor < target) {
+            this.entries[this.cursor].redo();
+            this.cursor++;
+        }
+        this.onChange();
+    }
+
+    public clear() {
+        this.entries = [];
+        this.cursor = 0;
+        this.totalBytes = 0;
+        this.onChange();
+    }
+
+    public getEntries(): readonly HistoryCommand[] {
+        return this.entries;
+    }
+
+    public getCursor(): number {
+        return this.cursor;
+    }
+
+    public getTotalBytes(): number {
+        return this.totalBytes;
+    }
+}
+
+// --- APP SETUP ---
+
+const canvas = document.getElementById('gridCanvas') as HTMLCanvasElement;
+const ctx = canvas.getContext('2d')!;
+
+// Size canvas to fill available space (window height minus controls)
+function resizeCanvas() {
+    canvas.width = window.innerWidth;
+    canvas.height = window.innerHeight;
+}
+
+resizeCanvas();
+
+const grid = new DualGridSystem(GRID_SIZE, GRID_SIZE);
+
+// Preview minimap setup (used in config panel for live preview)
+const previewMinimapCanvas = document.getElementById('minimapCanvas') as HTMLCanvasElement;
+const previewMinimapCtx = previewMinimapCanvas.getContext('2d')!;
+previewMinimapCanvas.width = 250;
+previewMinimapCanvas.height = 250;
+
+// World minimap setup (standalone minimap overlay showing actual map)
+const worldMinimapCanvas = document.getElementById('worldMinimapCanvas') as HTMLCanvasElement;
+const worldMinimapCtx = worldMinimapCanvas.getContext('2d')!;
+worldMinimapCanvas.width = 250;
+worldMinimapCanvas.height = 250;
+
+// Create a separate grid for live preview in config panel
+let previewGrid: DualGridSystem | null = null;
+
+// Separate workers so a preview restart never cancels a full map generation
+const mapGenerator = new GenerationClient();
+const previewGenerator = new GenerationClient();
+// Map Generation panel + biome table that produced the current map (null until the first map is applied)
+let appliedGenerationSettings: GenerationSettingsSnapshot | null = null;
+let mainMapJobId = 0; // Latest generateMainMap job - only it may unlock the history
+const generationStatus = document.getElementById('generationStatus')!;
+const previewStatus = document.getElementById('previewStatus')!;
+
+// Get config panel and minimap references early for use in loop
+const configPanel = document.getElementById('configPanel')!;
+const minimap = document.getElementById('minimap')!;
+
+// Frame time readout (smoothed, DOM updated a few times per second to avoid layout churn)
+const frameStats = document.getElementById('frameStats')!;
+let smoothedRenderMs = 0;
+let smoothedFrameMs = 0;
+let lastFrameStart = performance.now();
+let lastStatsUpdate = 0;
+
+function updateFrameStats(renderMs: number, frameStart: number) {
+    const frameMs = frameStart - lastFrameStart;
+    lastFrameStart = frameStart;
+    smoothedRenderMs = smoothedRenderMs * 0.9 + renderMs * 0.1;
+    smoothedFrameMs = smoothedFrameMs * 0.9 + frameMs * 0.1;
+
+    if (frameStart - lastStatsUpdate < 250) return;
+    lastStatsUpdate = frameStart;
+    frameStats.textContent =
+        `Render ${smoothedRenderMs.toFixed(1)} ms · ` +
+        `Frame ${smoothedFrameMs.toFixed(1)} ms (${(1000 / Math.max(smoothedFrameMs, 0.001)).toFixed(0)} fps) · ` +
+        `${grid.lastVisibleChunkCount} chunks (${grid.lastRebuiltChunkCount} rebuilt, ${grid.lastDrawnTileCount.toLocaleString()} tiles)` +
+        (grid.world ? ` · ${grid.world.loadedChunkCount} world chunks loaded, ${grid.world.pendingChunkCount} pending` : '');
+}
+
+// --- LOOP ---
+function loop() {
+    const frameStart = performance.now();
+
+    // Background
+    ctx.fillStyle = "#0d0d0d";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (assetsLoaded) {
+        grid.render(ctx, canvas.width, canvas.height);
+        updateFrameStats(performance.now() - frameStart, frameStart);
+
+        // Render preview minimap if config panel is open
+        if (configPanel.classList.contains('open') && previewGrid) {
+            previewGrid.renderMinimap(previewMinimapCtx, previewMinimapCanvas.width, previewMinimapCanvas.height, canvas.width, canvas.height);
+        }
+
+        // Render world minimap if minimap overlay is open
+        if (minimap.classList.contains('open')) {
+            grid.renderMinimap(worldMinimapCtx, worldMinimapCanvas.width, worldMinimapCanvas.height, canvas.width, canvas.height);
+        }
+    } else {
+        // Show loading message
+        ctx.fillStyle = "#eee";
+        ctx.font = "20px 'Segoe UI'";
+        ctx.textAlign = "center";
+        ctx.fillText("Loading textures...", canvas.width / 2, canvas.height / 2);
+    }
+
+    requestAnimationFrame(loop);
+}
+
+// Generate dynamic CSS for terrain colors
 function generateTerrainCSS(): void {
     const style = document.createElement('style');
     style.id = 'dynamic-terrain-styles';
@@ -1160,6 +2562,7 @@ function generateTerrainCSS(): void {
 loadTerrainAssets().then(() => {
     console.log("All terrain assets loaded!");
     generateTerrainCSS(); // Generate CSS dynamically from buckets
+    generateBucketInputs(); // Texture pickers list the packs that loaded
 }).catch(err => {
     console.error("Failed to load assets:", err);
 });
@@ -1176,14 +2579,11 @@ document.getElementById('btnRegenerate')!.addEventListener('click', () => {
     configSeed.value = newSeed.toString();
 
     // Use current config values
-    const macro = parseFloat(configScaleMacro.value);
-    const mid = parseFloat(configScaleMid.value);
-    const micro = parseFloat(configScaleMicro.value);
-    const scale = macro + mid + micro;
-    const size = parseInt(configMapSize.value);
+    const width = parseInt(configMapWidth.value);
+    const height = parseInt(configMapHeight.value);
 
     // Generate full map using current bucket configuration
-    grid.generatePerlinMap({ scale, seed: newSeed, size, buckets: currentBuckets });
+    generateMainMap(readMapConfig(newSeed, width, height), `New random map (seed ${newSeed})`);
 
     // Also update preview if config panel is open
     if (configPanel.classList.contains('open')) {
@@ -1191,28 +2591,62 @@ document.getElementById('btnRegenerate')!.addEventListener('click', () => {
     }
 });
 
+// Run the Map Generation cleanup settings on the current map, keeping any hand edits elsewhere
+document.getElementById('btnCleanup')!.addEventListener('click', () => {
+    if (grid.world) {
+        alert('Clean Up needs a finite map - it is not available in infinite world mode');
+        return;
+    }
+
+    if (mapHistory.isLocked()) {
+        alert('Wait for the map generation to finish before cleaning up');
+        return;
+    }
+
+    const cleanup = readGenerationSettings().cleanup;
+    if (!isCleanupEnabled(cleanup)) {
+        alert('Enable at least one cleanup step in ⚙️ Config → Map Generation → Cleanup first');
+        return;
+    }
+
+    const before = captureMapState();
+    const changed = grid.cleanUp(cleanup);
+    recordMapChange('Clean up map', before);
+    console.log(`Cleanup changed ${changed} cells`);
+});
+
+const exportFormatSelect = document.getElementById('exportFormat') as HTMLSelectElement;
+
 document.getElementById('btnExport')!.addEventListener('click', () => {
     if (!assetsLoaded) {
         alert('Please wait for assets to load before exporting');
         return;
     }
 
-    console.log("Exporting map to image...");
+    if (grid.world) {
+        alert('Exports need a finite map - turn off Infinite World in ⚙️ Config → Map Generation first');
+        return;
+    }
 
-    // Calculate estimated export size for user feedback
-    const tileWidth = grid.renderMode === RenderMode.OrthographicColored ? 40 : TILE_WIDTH;
-    const tileHeight = grid.renderMode === RenderMode.OrthographicColored ? 40 : TILE_HEIGHT;
+    switch (exportFormatSelect.value) {
+        case 'tiled-json':
+        case 'tiled-tmx':
+            exportTiled(exportFormatSelect.value === 'tiled-tmx' ? 'tmx' : 'json');
+            break;
+        case 'render-json':
+        case 'render-binary':
+            exportRenderData(exportFormatSelect.value === 'render-binary' ? 'binary' : 'json');
+            break;
+        default:
+            exportPng();
+    }
+});
 
-    let estimatedWidth: number;
-    let estimatedHeight: number;
+function exportPng() {
+    console.log("Exporting map to image...");
 
-    if (grid.renderMode === RenderMode.OrthographicColored) {
-        estimatedWidth = (grid.width - 1) * tileWidth;
-        estimatedHeight = (grid.height - 1) * tileHeight;
-    } else {
-        estimatedWidth = (grid.width + grid.height - 1) * (TILE_WIDTH / 2) + TILE_WIDTH;
-        estimatedHeight = (grid.width + grid.height - 1) * (TILE_HEIGHT / 2) + TILE_HEIGHT;
-    }
+    // Calculate estimated export size for user feedback
+    const { width: estimatedWidth, height: estimatedHeight } = grid.getExportSize();
 
     // Generate the export canvas
     const exportCanvas = grid.exportToImage();
@@ -1224,7 +2658,7 @@ document.getElementById('btnExport')!.addEventListener('click', () => {
             `Current map size: ${grid.width}×${grid.height}\n` +
             `Export dimensions: ${estimatedWidth}×${estimatedHeight} pixels (${megapixels} MP)\n\n` +
             `Recommended maximum map size:\n` +
-            `• Isometric modes: ~200×200\n` +
+            `• Isometric modes: width + height up to ~500\n` +
             `• Orthographic mode: ~250×250\n\n` +
             `Please reduce the map size in the configuration panel.`
         );
@@ -1238,25 +2672,58 @@ document.getElementById('btnExport')!.addEventListener('click', () => {
             return;
         }
 
-        // Create download link
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-
         // Generate filename with timestamp
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
         const modeNames = ['isometric-textured', 'isometric-colored', 'orthographic'];
         const modeName = modeNames[grid.renderMode];
-        link.download = `terrain-map-${modeName}-${timestamp}.png`;
+        const fileName = `terrain-map-${modeName}-${timestamp}.png`;
+        downloadBlob(blob, fileName);
 
-        link.href = url;
-        link.click();
+        console.log(`Exported map as ${fileName} (${estimatedWidth}×${estimatedHeight}px)`);
+    }, 'image/png');
+}
 
-        // Clean up
-        URL.revokeObjectURL(url);
+// Export a Tiled map (.tmj or .tmx) plus one PNG per tileset atlas, which the map references by file name
+async function exportTiled(format: 'json' | 'tmx') {
+    console.log(`Exporting map to Tiled (${format})...`);
 
-        console.log(`Exported map as ${link.download} (${estimatedWidth}×${estimatedHeight}px)`);
-    }, 'image/png');
-});
+    const { map, images, missingTerrains } = grid.exportToTiled();
+
+    if (missingTerrains.length > 0) {
+        const names = missingTerrains.map(t => currentBuckets.find(b => b.terrainType === t)?.name ?? `Terrain ${t}`);
+        alert(`These terrains have no texture and will be empty in Tiled:\n${names.join(', ')}\n\nUpload a texture for them to include them.`);
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+    const content = format === 'tmx' ? tiledMapToTmx(map) : JSON.stringify(map);
+    const mimeType = format === 'tmx' ? 'application/xml' : 'application/json';
+    const fileName = `terrain-map-${timestamp}.${format === 'tmx' ? 'tmx' : 'tmj'}`;
+    downloadBlob(new Blob([content], { type: mimeType }), fileName);
+
+    // Tileset images are saved next to the map so the relative paths resolve
+    for (const { fileName: imageName, image } of images) {
+        const blob = await imageToPngBlob(image);
+        if (blob) downloadBlob(blob, imageName);
+    }
+
+    console.log(`Exported ${fileName} with ${map.tilesets.length} tilesets and ${map.layers.length} layers`);
+}
+
+// Export role/tile-id matrices for engines that draw the map with their own sprite batcher
+function exportRenderData(format: 'json' | 'binary') {
+    const data = grid.exportRenderData();
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+
+    if (format === 'binary') {
+        const fileName = `terrain-render-data-${timestamp}.bin`;
+        downloadBlob(new Blob([renderDataToBinary(data)], { type: 'application/octet-stream' }), fileName);
+        console.log(`Exported ${fileName} (${data.width}×${data.height} tiles, ${data.layers.length} transition layers)`);
+    } else {
+        const fileName = `terrain-render-data-${timestamp}.json`;
+        downloadBlob(new Blob([renderDataToJson(data, grid.getBuckets())], { type: 'application/json' }), fileName);
+        console.log(`Exported ${fileName} (${data.width}×${data.height} tiles, ${data.layers.length} transition layers)`);
+    }
+}
 
 // Mode buttons
 const btnTextured = document.getElementById('btnTextured')!;
@@ -1338,6 +2805,47 @@ btnMinimap.addEventListener('click', () => {
     minimap.classList.toggle('open');
 });
 
+// Click or drag on the world minimap to move the main view there
+let isNavigatingMinimap = false;
+// In infinite mode the minimap follows the camera, so a drag is mapped against the window as it was
+// at mousedown - otherwise holding the mouse still would keep panning
+let minimapDragWindow: MinimapWindow | null = null;
+
+function navigateFromMinimap(e: MouseEvent) {
+    // The canvas is CSS-scaled to the overlay, so convert to its internal resolution
+    const rect = worldMinimapCanvas.getBoundingClientRect();
+    const minimapX = (e.clientX - rect.left) * (worldMinimapCanvas.width / rect.width);
+    const minimapY = (e.clientY - rect.top) * (worldMinimapCanvas.height / rect.height);
+
+    const target = grid.minimapToGrid(minimapX, minimapY, worldMinimapCanvas.width, worldMinimapCanvas.height,
+        minimapDragWindow ?? undefined);
+    if (grid.world) {
+        grid.centerOnGrid(target.x, target.y); // Infinite worlds have no edges to clamp to
+        return;
+    }
+    grid.centerOnGrid(
+        Math.max(0, Math.min(grid.width - 1, target.x)),
+        Math.max(0, Math.min(grid.height - 1, target.y))
+    );
+}
+
+worldMinimapCanvas.addEventListener('mousedown', (e) => {
+    isNavigatingMinimap = true;
+    minimapDragWindow = grid.getMinimapWindow();
+    navigateFromMinimap(e);
+    e.preventDefault();
+});
+
+// Track on the window so dragging past the minimap edge keeps panning (clamped to the map)
+window.addEventListener('mousemove', (e) => {
+    if (isNavigatingMinimap) navigateFromMinimap(e);
+});
+
+window.addEventListener('mouseup', () => {
+    isNavigatingMinimap = false;
+    minimapDragWindow = null;
+});
+
 // Keyboard shortcut for minimap (M key)
 window.addEventListener('keydown', (e) => {
     if (e.key === 'm' || e.key === 'M') {
@@ -1347,19 +2855,68 @@ window.addEventListener('keydown', (e) => {
     }
 });
 
+// --- ZOOM ---
+const zoomIndicator = document.getElementById('zoomIndicator')!;
+const btnZoomIn = document.getElementById('btnZoomIn')!;
+const btnZoomOut = document.getElementById('btnZoomOut')!;
+
+function setZoom(newZoom: number, screenX: number = canvas.width / 2, screenY: number = canvas.height / 2) {
+    grid.zoomAt(screenX, screenY, newZoom, canvas.width, canvas.height);
+    zoomIndicator.textContent = `${Math.round(grid.zoomLevel * 100)}%`;
+}
+
+// Wheel zoom keeps the point under the cursor fixed
+canvas.addEventListener('wheel', (e) => {
+    e.preventDefault();
+    const rect = canvas.getBoundingClientRect();
+    const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+    setZoom(grid.zoomLevel * factor, e.clientX - rect.left, e.clientY - rect.top);
+}, { passive: false });
+
+btnZoomIn.addEventListener('click', () => setZoom(grid.zoomLevel * ZOOM_STEP));
+btnZoomOut.addEventListener('click', () => setZoom(grid.zoomLevel / ZOOM_STEP));
+zoomIndicator.addEventListener('click', () => setZoom(1.0));
+
+// Keyboard zoom (+/-, 0 resets) around the canvas center
+window.addEventListener('keydown', (e) => {
+    if (document.activeElement?.tagName === 'INPUT' || e.ctrlKey || e.metaKey) return;
+
+    if (e.key === '+' || e.key === '=') {
+        setZoom(grid.zoomLevel * ZOOM_STEP);
+    } else if (e.key === '-' || e.key === '_') {
+        setZoom(grid.zoomLevel / ZOOM_STEP);
+    } else if (e.key === '0') {
+        setZoom(1.0);
+    }
+});
+
 // Handle resize
 window.addEventListener('resize', () => {
     resizeCanvas();
 });
 
-// --- CAMERA PANNING ---
+// --- CAMERA PANNING & PAINTING ---
 let isDragging = false;
+let isPainting = false;
 let lastMouseX = 0;
 let lastMouseY = 0;
 let dragStartX = 0;
 let dragStartY = 0;
+let lastPaintCell: { x: number; y: number } | null = null;
+let paintStrokeBefore: MapState | null = null;
 
 canvas.addEventListener('mousedown', (e) => {
+    // Left button paints in Paint mode; any other button still pans
+    if (activeTool === EditTool.Paint && e.button === 0) {
+        if (mapHistory.isLocked()) return; // Wait for the map being generated
+        isPainting = true;
+        lastPaintCell = null;
+        // Undo snapshots hold a whole bounded map, so strokes in an infinite world aren't recorded
+        paintStrokeBefore = grid.world ? null : captureMapState();
+        paintAtScreen(e);
+        return;
+    }
+
     isDragging = true;
     lastMouseX = e.clientX;
     lastMouseY = e.clientY;
@@ -1368,25 +2925,36 @@ canvas.addEventListener('mousedown', (e) => {
 });
 
 canvas.addEventListener('mousemove', (e) => {
+    if (isPainting) {
+        paintAtScreen(e);
+        return;
+    }
+
     if (!isDragging) return;
 
     const deltaX = e.clientX - lastMouseX;
     const deltaY = e.clientY - lastMouseY;
 
-    grid.cameraOffsetX += deltaX;
-    grid.cameraOffsetY += deltaY;
+    // Camera offset is in unzoomed map pixels
+    grid.cameraOffsetX += deltaX / grid.zoomLevel;
+    grid.cameraOffsetY += deltaY / grid.zoomLevel;
 
     lastMouseX = e.clientX;
     lastMouseY = e.clientY;
 });
 
 canvas.addEventListener('mouseup', (e) => {
+    if (isPainting) {
+        endPaintStroke();
+        return;
+    }
+
     // Only treat as click if mouse didn't move much (< 5 pixels)
     const dragDistance = Math.sqrt(
         Math.pow(e.clientX - dragStartX, 2) + Math.pow(e.clientY - dragStartY, 2)
     );
 
-    if (dragDistance < 5) {
+    if (isDragging && dragDistance < 5 && activeTool === EditTool.Inspect) {
         handleTileClick(e);
     }
 
@@ -1395,8 +2963,113 @@ canvas.addEventListener('mouseup', (e) => {
 
 canvas.addEventListener('mouseleave', () => {
     isDragging = false;
+    if (isPainting) endPaintStroke();
+});
+
+// A whole stroke (mousedown to mouseup) is one undo step
+function endPaintStroke() {
+    isPainting = false;
+    lastPaintCell = null;
+    if (paintStrokeBefore) {
+        const bucket = currentBuckets[parseInt(paintTerrainSelect.value)];
+        recordMapChange(`Paint ${bucket?.name ?? 'terrain'}`, paintStrokeBefore);
+        paintStrokeBefore = null;
+    }
+}
+
+// Paint the brush at the cell under the mouse, filling the gap since the last
+// painted cell so fast drags leave a continuous stroke
+function paintAtScreen(e: MouseEvent) {
+    const rect = canvas.getBoundingClientRect();
+    const cell = screenToCell(e.clientX - rect.left, e.clientY - rect.top);
+    const bucket = currentBuckets[parseInt(paintTerrainSelect.value)];
+    if (!bucket) return;
+
+    const radius = parseInt(brushRadiusInput.value);
+    const shape = parseInt(brushShapeSelect.value) as BrushShape;
+    const from = lastPaintCell ?? cell;
+    const steps = Math.max(Math.abs(cell.x - from.x), Math.abs(cell.y - from.y), 1);
+
+    for (let i = 1; i <= steps; i++) {
+        const x = Math.round(from.x + (cell.x - from.x) * i / steps);
+        const y = Math.round(from.y + (cell.y - from.y) * i / steps);
+        grid.paintBrush(x, y, radius, shape, bucket.terrainType);
+    }
+
+    lastPaintCell = cell;
+}
+
+// --- EDIT TOOLS ---
+const btnToolPan = document.getElementById('btnToolPan')!;
+const btnToolInspect = document.getElementById('btnToolInspect')!;
+const btnToolPaint = document.getElementById('btnToolPaint')!;
+const paintOptions = document.getElementById('paintOptions')!;
+const paintTerrainSelect = document.getElementById('paintTerrain') as HTMLSelectElement;
+const brushShapeSelect = document.getElementById('brushShape') as HTMLSelectElement;
+const brushRadiusInput = document.getElementById('brushRadius') as HTMLInputElement;
+const brushRadiusValue = document.getElementById('brushRadiusValue')!;
+
+let activeTool: EditTool = EditTool.Inspect;
+
+function setActiveTool(tool: EditTool) {
+    activeTool = tool;
+    btnToolPan.classList.toggle('active', tool === EditTool.Pan);
+    btnToolInspect.classList.toggle('active', tool === EditTool.Inspect);
+    btnToolPaint.classList.toggle('active', tool === EditTool.Paint);
+    paintOptions.style.display = tool === EditTool.Paint ? 'inline-block' : 'none';
+    canvas.classList.toggle('paint-tool', tool === EditTool.Paint);
+}
+
+// Rebuild the paint terrain dropdown from the current buckets, keeping the selection if possible
+function updatePaintTerrainOptions() {
+    const previous = paintTerrainSelect.value;
+    paintTerrainSelect.innerHTML = '';
+
+    currentBuckets.forEach((bucket, index) => {
+        const option = document.createElement('option');
+        option.value = index.toString();
+        option.textContent = bucket.name;
+        option.style.color = bucket.color;
+        paintTerrainSelect.appendChild(option);
+    });
+
+    if (parseInt(previous) < currentBuckets.length) {
+        paintTerrainSelect.value = previous;
+    }
+}
+
+// Rebuild the river water / bank dropdowns (valued by terrain type, unlike the paint dropdown)
+function updateRiverTerrainOptions() {
+    const previousWater = configRiverWater.value || DEFAULT_RIVERS.waterType.toString();
+    const previousBank = configRiverBank.value;
+    configRiverWater.innerHTML = '';
+    configRiverBank.innerHTML = '<option value="">None</option>';
+
+    currentBuckets.forEach(bucket => {
+        [configRiverWater, configRiverBank].forEach(select => {
+            const option = document.createElement('option');
+            option.value = bucket.terrainType.toString();
+            option.textContent = bucket.name;
+            option.style.color = bucket.color;
+            select.appendChild(option);
+        });
+    });
+
+    const hasType = (value: string) => currentBuckets.some(b => b.terrainType.toString() === value);
+    if (hasType(previousWater)) configRiverWater.value = previousWater;
+    configRiverBank.value = hasType(previousBank) ? previousBank : '';
+}
+
+btnToolPan.addEventListener('click', () => setActiveTool(EditTool.Pan));
+btnToolInspect.addEventListener('click', () => setActiveTool(EditTool.Inspect));
+btnToolPaint.addEventListener('click', () => setActiveTool(EditTool.Paint));
+
+brushRadiusInput.addEventListener('input', () => {
+    brushRadiusValue.textContent = brushRadiusInput.value;
 });
 
+setActiveTool(EditTool.Inspect);
+
 // --- DEBUG PANEL ---
 const debugPanel = document.getElementById('debugPanel')!;
 const debugContent = document.getElementById('debugContent')!;
@@ -1424,20 +3097,19 @@ function handleTileClick(e: MouseEvent) {
     }
 }
 
-function screenToGrid(screenX: number, screenY: number): { x: number; y: number } | null {
-    const originX = canvas.width / 2 + grid.cameraOffsetX;
-    const originY = canvas.height / 2 + grid.cameraOffsetY;
+// Convert screen coordinates to continuous world-grid coordinates
+// (integer values land exactly on world cells, i.e. on dual-grid tile corners)
+function screenToGridPoint(screenX: number, screenY: number): { x: number; y: number } {
+    // Undo the zoom (applied around the canvas center) and the camera offset:
+    // screen = center + zoom * (cameraOffset + local)
+    const relX = (screenX - canvas.width / 2) / grid.zoomLevel - grid.cameraOffsetX;
+    const relY = (screenY - canvas.height / 2) / grid.zoomLevel - grid.cameraOffsetY;
 
     if (grid.renderMode === RenderMode.OrthographicColored) {
         // Orthographic mode - simple calculation
-        const gridX = Math.floor((screenX - originX) / 40);
-        const gridY = Math.floor((screenY - originY) / 40);
-        return { x: gridX, y: gridY };
+        return { x: relX / 40, y: relY / 40 };
     } else {
         // Isometric mode - inverse transformation
-        // Convert screen position relative to origin
-        const relX = screenX - originX;
-        const relY = screenY - originY;
 
         // Inverse isometric projection
         // Original: drawX = (x - y) * (TILE_WIDTH / 2), drawY = (x + y) * (TILE_HEIGHT / 2)
@@ -1445,14 +3117,22 @@ function screenToGrid(screenX: number, screenY: number): { x: number; y: number
         const x = (relX / (TILE_WIDTH / 2) + relY / (TILE_HEIGHT / 2)) / 2;
         const y = (relY / (TILE_HEIGHT / 2) - relX / (TILE_WIDTH / 2)) / 2;
 
-        // Adjust for the 0.5 offset used in rendering (centering)
-        const gridX = Math.floor(x);
-        const gridY = Math.floor(y);
-
-        return { x: gridX, y: gridY };
+        return { x, y };
     }
 }
 
+// Dual-grid tile under the cursor (the tile spans from corner (x, y) to corner (x+1, y+1))
+function screenToGrid(screenX: number, screenY: number): { x: number; y: number } | null {
+    const point = screenToGridPoint(screenX, screenY);
+    return { x: Math.floor(point.x), y: Math.floor(point.y) };
+}
+
+// World cell nearest to the cursor (cells sit on the tile corners)
+function screenToCell(screenX: number, screenY: number): { x: number; y: number } {
+    const point = screenToGridPoint(screenX, screenY);
+    return { x: Math.round(point.x), y: Math.round(point.y) };
+}
+
 function getTerrainName(terrain: TerrainType): string {
     const bucket = DEFAULT_BUCKETS.find(b => b.terrainType === terrain);
     return bucket?.name ?? `Unknown Terrain ${terrain}`;
@@ -1463,6 +3143,11 @@ function getTerrainClass(terrain: TerrainType): string {
     return bucket ? `terrain-${bucket.name.toLowerCase()}` : 'terrain-unknown';
 }
 
+// Corner elevation suffix for the debug panel (omitted when the map's heights are unknown)
+function formatElevation(elevation: number | undefined): string {
+    return elevation === undefined ? '' : ` (${elevation.toFixed(3)})`;
+}
+
 function formatBitmask(role: number): string {
     // Display format maps bits to traditional grid corner labels (TL/TR/BL/BR)
     // Note: Visual corners (Top/Right/Bottom/Left) map to traditional labels as:
@@ -1502,19 +3187,19 @@ function displayDebugInfo(info: TileDebugInfo) {
             <h4>Corner Terrain Types</h4>
             <div class="debug-row">
                 <span class="debug-label">Top (North):</span>
-                <span class="debug-value ${getTerrainClass(info.corners.tl)}">${getTerrainName(info.corners.tl)}</span>
+                <span class="debug-value ${getTerrainClass(info.corners.tl)}">${getTerrainName(info.corners.tl)}${formatElevation(info.elevations?.tl)}</span>
             </div>
             <div class="debug-row">
                 <span class="debug-label">Right (East):</span>
-                <span class="debug-value ${getTerrainClass(info.corners.tr)}">${getTerrainName(info.corners.tr)}</span>
+                <span class="debug-value ${getTerrainClass(info.corners.tr)}">${getTerrainName(info.corners.tr)}${formatElevation(info.elevations?.tr)}</span>
             </div>
             <div class="debug-row">
                 <span class="debug-label">Bottom (South):</span>
-                <span class="debug-value ${getTerrainClass(info.corners.bl)}">${getTerrainName(info.corners.bl)}</span>
+                <span class="debug-value ${getTerrainClass(info.corners.bl)}">${getTerrainName(info.corners.bl)}${formatElevation(info.elevations?.bl)}</span>
             </div>
             <div class="debug-row">
                 <span class="debug-label">Left (West):</span>
-                <span class="debug-value ${getTerrainClass(info.corners.br)}">${getTerrainName(info.corners.br)}</span>
+                <span class="debug-value ${getTerrainClass(info.corners.br)}">${getTerrainName(info.corners.br)}${formatElevation(info.elevations?.br)}</span>
             </div>
         </div>
 
@@ -1563,12 +3248,64 @@ const btnRandomSeed = document.getElementById('btnRandomSeed')!;
 const configScaleMacro = document.getElementById('configScaleMacro') as HTMLInputElement;
 const configScaleMid = document.getElementById('configScaleMid') as HTMLInputElement;
 const configScaleMicro = document.getElementById('configScaleMicro') as HTMLInputElement;
-const configMapSize = document.getElementById('configMapSize') as HTMLInputElement;
+const configMapWidth = document.getElementById('configMapWidth') as HTMLInputElement;
+const configMapHeight = document.getElementById('configMapHeight') as HTMLInputElement;
 const configSeed = document.getElementById('configSeed') as HTMLInputElement;
+const configInfinite = document.getElementById('configInfinite') as HTMLInputElement;
 const scaleMacroValue = document.getElementById('scaleMacroValue')!;
 const scaleMidValue = document.getElementById('scaleMidValue')!;
 const scaleMicroValue = document.getElementById('scaleMicroValue')!;
-const scaleTotalValue = document.getElementById('scaleTotalValue')!;
+const configWeightMacro = document.getElementById('configWeightMacro') as HTMLInputElement;
+const configWeightMid = document.getElementById('configWeightMid') as HTMLInputElement;
+const configWeightMicro = document.getElementById('configWeightMicro') as HTMLInputElement;
+const configModeMacro = document.getElementById('configModeMacro') as HTMLSelectElement;
+const configModeMid = document.getElementById('configModeMid') as HTMLSelectElement;
+const configModeMicro = document.getElementById('configModeMicro') as HTMLSelectElement;
+const configOctaves = document.getElementById('configOctaves') as HTMLInputElement;
+const configLacunarity = document.getElementById('configLacunarity') as HTMLInputElement;
+const configPersistence = document.getElementById('configPersistence') as HTMLInputElement;
+const configWarpStrength = document.getElementById('configWarpStrength') as HTMLInputElement;
+const configWarpFrequency = document.getElementById('configWarpFrequency') as HTMLInputElement;
+const configWarpIterations = document.getElementById('configWarpIterations') as HTMLInputElement;
+const warpStrengthValue = document.getElementById('warpStrengthValue')!;
+const warpFrequencyValue = document.getElementById('warpFrequencyValue')!;
+const warpIterationsValue = document.getElementById('warpIterationsValue')!;
+const configFalloffShape = document.getElementById('configFalloffShape') as HTMLSelectElement;
+const configFalloffStrength = document.getElementById('configFalloffStrength') as HTMLInputElement;
+const configFalloffCurve = document.getElementById('configFalloffCurve') as HTMLInputElement;
+const falloffStrengthValue = document.getElementById('falloffStrengthValue')!;
+const falloffMaskInput = document.getElementById('falloffMaskInput') as HTMLInputElement;
+const btnFalloffMask = document.getElementById('btnFalloffMask') as HTMLButtonElement;
+const falloffMaskStatus = document.getElementById('falloffMaskStatus')!;
+const configRiverCount = document.getElementById('configRiverCount') as HTMLInputElement;
+const configRiverMinLength = document.getElementById('configRiverMinLength') as HTMLInputElement;
+const configRiverSource = document.getElementById('configRiverSource') as HTMLInputElement;
+const configRiverWidth = document.getElementById('configRiverWidth') as HTMLInputElement;
+const configRiverWater = document.getElementById('configRiverWater') as HTMLSelectElement;
+const configRiverBank = document.getElementById('configRiverBank') as HTMLSelectElement;
+const riverCountValue = document.getElementById('riverCountValue')!;
+const riverMinLengthValue = document.getElementById('riverMinLengthValue')!;
+const riverSourceValue = document.getElementById('riverSourceValue')!;
+const riverWidthValue = document.getElementById('riverWidthValue')!;
+const configErosionDroplets = document.getElementById('configErosionDroplets') as HTMLInputElement;
+const configErosionRain = document.getElementById('configErosionRain') as HTMLInputElement;
+const configErosionCapacity = document.getElementById('configErosionCapacity') as HTMLInputElement;
+const configThermalIterations = document.getElementById('configThermalIterations') as HTMLInputElement;
+const configThermalTalus = document.getElementById('configThermalTalus') as HTMLInputElement;
+const erosionDropletsValue = document.getElementById('erosionDropletsValue')!;
+const erosionRainValue = document.getElementById('erosionRainValue')!;
+const erosionCapacityValue = document.getElementById('erosionCapacityValue')!;
+const thermalIterationsValue = document.getElementById('thermalIterationsValue')!;
+const thermalTalusValue = document.getElementById('thermalTalusValue')!;
+const configSmoothingPasses = document.getElementById('configSmoothingPasses') as HTMLInputElement;
+const configMinRegionSize = document.getElementById('configMinRegionSize') as HTMLInputElement;
+const configResolveDiagonals = document.getElementById('configResolveDiagonals') as HTMLInputElement;
+const smoothingPassesValue = document.getElementById('smoothingPassesValue')!;
+const minRegionSizeValue = document.getElementById('minRegionSizeValue')!;
+let falloffMask: FalloffMask | null = null; // Uploaded grayscale mask (not an input value, so kept here)
+const octavesValue = document.getElementById('octavesValue')!;
+const lacunarityValue = document.getElementById('lacunarityValue')!;
+const persistenceValue = document.getElementById('persistenceValue')!;
 
 // Collapsible section handlers
 const mapGenHeader = document.getElementById('mapGenHeader')!;
@@ -1591,6 +3328,7 @@ bucketsHeader.addEventListener('click', () => {
 
 // Store current bucket configuration
 let currentBuckets: TerrainBucket[] = [...DEFAULT_BUCKETS];
+let currentBiome: BiomeSettings = cloneBiome(DEFAULT_BIOME);
 
 // Next available terrain type ID (for dynamically created terrains)
 // Automatically calculated from DEFAULT_BUCKETS
@@ -1654,6 +3392,7 @@ function generateBucketInputs() {
             const idx = parseInt(target.dataset.bucketIndex!);
             currentBuckets[idx].color = target.value;
             colorPreview.style.backgroundColor = target.value;
+            grid.invalidateAll(); // Colored modes read bucket colors live
             updatePreviewGrid();
         });
 
@@ -1678,11 +3417,49 @@ function generateBucketInputs() {
             }
         });
 
+        // Texture pack picker - any pack from the asset manifest, or the uploaded texture
+        const packSelect = document.createElement('select');
+        packSelect.className = 'bucket-texture-pack';
+        packSelect.title = 'Texture pack from public/terrain-manifest.json';
+        packSelect.dataset.bucketIndex = index.toString();
+        const packOptions: Array<[string, string]> = [...terrainPacks.values()].map(({ pack }) => [pack.id, pack.name]);
+        if (bucket.customTextureLoaded) {
+            packOptions.unshift([CUSTOM_TEXTURE_OPTION, 'Uploaded texture']);
+        } else if (!bucket.texturePack || !terrainPacks.has(bucket.texturePack)) {
+            packOptions.unshift(['', 'Choose texture…']);
+        }
+        packOptions.forEach(([value, label]) => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = label;
+            option.disabled = value === '';
+            packSelect.appendChild(option);
+        });
+        packSelect.value = bucket.customTextureLoaded ? CUSTOM_TEXTURE_OPTION : bucket.texturePack ?? '';
+        packSelect.addEventListener('change', (e) => {
+            const target = e.target as HTMLSelectElement;
+            const idx = parseInt(target.dataset.bucketIndex!);
+            const entry = terrainPacks.get(target.value);
+            if (!entry) return;
+
+            // A pack replaces any uploaded texture and brings its suggested color
+            const selected = currentBuckets[idx];
+            selected.texturePack = entry.pack.id;
+            selected.color = entry.pack.color;
+            delete selected.customTexture;
+            delete selected.customTextureDataUrl;
+            delete selected.customTextureLoaded;
+            delete selected.customWangJson;
+            terrainAssets.set(selected.terrainType, entry.assets);
+            generateBucketInputs(); // Refresh UI (also redraws the map with the new atlas and color)
+            updatePreviewGrid();
+        });
+
         // Texture upload button
         const textureBtn = document.createElement('button');
         textureBtn.className = 'bucket-texture-btn';
         textureBtn.textContent = bucket.customTextureLoaded ? '✓ Texture' : '📁 Texture';
-        textureBtn.title = 'Upload custom Wang tile texture (PNG)';
+        textureBtn.title = 'Upload a custom Wang tile atlas (PNG). Select its Wang JSON as well for other tile sizes, layouts or role mappings';
         textureBtn.dataset.bucketIndex = index.toString();
         if (bucket.customTextureLoaded) {
             textureBtn.classList.add('loaded');
@@ -1691,21 +3468,31 @@ function generateBucketInputs() {
         // Hidden file input
         const fileInput = document.createElement('input');
         fileInput.type = 'file';
-        fileInput.accept = 'image/png,image/jpeg,image/jpg,image/webp';
+        fileInput.accept = 'image/png,image/jpeg,image/jpg,image/webp,.json,.txt,application/json';
+        fileInput.multiple = true; // Atlas image plus optional Wang JSON
         fileInput.className = 'bucket-texture-input';
         fileInput.dataset.bucketIndex = index.toString();
         fileInput.addEventListener('change', async (e) => {
             const target = e.target as HTMLInputElement;
             const idx = parseInt(target.dataset.bucketIndex!);
-            const file = target.files?.[0];
+            const files = [...(target.files ?? [])];
+            target.value = ''; // Allow picking the same files again after fixing them
 
-            if (file) {
+            if (files.length > 0) {
                 try {
-                    await loadCustomTexture(file, currentBuckets[idx].terrainType);
-                    currentBuckets[idx].customTexture = file;
+                    const { dataUrl, wangJson, assets } = await loadCustomTexture(files, currentBuckets[idx].terrainType);
+                    currentBuckets[idx].customTexture = files.find(file => file.type.startsWith('image/'));
+                    currentBuckets[idx].customTextureDataUrl = dataUrl;
+                    currentBuckets[idx].customWangJson = wangJson;
                     currentBuckets[idx].customTextureLoaded = true;
+                    delete currentBuckets[idx].texturePack;
+                    grid.invalidateAll(); // New atlas for this terrain
                     generateBucketInputs(); // Refresh UI to show loaded state
                     console.log(`Custom texture loaded for ${currentBuckets[idx].name}`);
+                    if (assets.missingRoles.length > 0) {
+                        alert(`The texture for ${currentBuckets[idx].name} has no tile for roles ${assets.missingRoles.join(', ')}.\n\n` +
+                            `Those tiles are drawn in the terrain color until a complete atlas is uploaded.`);
+                    }
                 } catch (err) {
                     alert(`Failed to load texture: ${err instanceof Error ? err.message : 'Unknown error'}`);
                     console.error('Texture load error:', err);
@@ -1717,24 +3504,600 @@ function generateBucketInputs() {
             fileInput.click();
         });
 
+        // Tileset inspector for whatever atlas this terrain currently uses
+        const inspectBtn = document.createElement('button');
+        inspectBtn.className = 'bucket-texture-btn';
+        inspectBtn.textContent = '🔎';
+        inspectBtn.title = 'Inspect this terrain\'s Wang atlas (roles, missing/duplicate tiles, remapping)';
+        inspectBtn.disabled = !terrainAssets.has(bucket.terrainType);
+        inspectBtn.addEventListener('click', () => openTilesetInspector(bucket.terrainType));
+
         row.appendChild(colorPreview);
         row.appendChild(nameInput);
         row.appendChild(thresholdInput);
         row.appendChild(colorInput);
+        row.appendChild(packSelect);
         row.appendChild(textureBtn);
+        row.appendChild(inspectBtn);
         row.appendChild(fileInput);
         row.appendChild(removeBtn);
+
+        // Roles the atlas can't draw (they fall back to flat color)
+        const missingRoles = terrainAssets.get(bucket.terrainType)?.missingRoles ?? [];
+        if (missingRoles.length > 0) {
+            const warning = document.createElement('div');
+            warning.className = 'bucket-texture-warning';
+            warning.textContent = `⚠ Texture is missing roles ${missingRoles.join(', ')}`;
+            row.appendChild(warning);
+        }
         bucketsList.appendChild(row);
     });
+
+    renderBiomeEditor();
+    renderTilesetInspector(); // Follow texture changes (closes if the inspected bucket is gone)
+    updateAtlasTargetOptions(); // Bucket names for the atlas generator
+    updatePaintTerrainOptions();
+    updateRiverTerrainOptions();
+    grid.invalidateAll(); // Bucket list changed (colors are looked up from currentBuckets)
 }
 
-// Add new bucket button handler
-const btnAddBucket = document.getElementById('btnAddBucket')!;
-btnAddBucket.addEventListener('click', () => {
-    // Generate a random color
-    const randomColor = '#' + Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0');
+// --- TILESET INSPECTOR ---
+// Shows every role of a bucket's atlas next to its expected corner pattern, flags missing and
+// duplicate roles, and lets a role be pointed at a different tile. Remaps rebuild the terrain's
+// assets immediately; the bucket then keeps the atlas as an upload with the edited Wang JSON.
+const tilesetInspector = document.getElementById('tilesetInspector')!;
+const inspectorTitle = document.getElementById('inspectorTitle')!;
+const inspectorSummary = document.getElementById('inspectorSummary')!;
+const inspectorGrid = document.getElementById('inspectorGrid')!;
+const INSPECTOR_TILE_SCALE = 1.5;
+let inspectedTerrain: TerrainType | null = null;
+
+function openTilesetInspector(terrain: TerrainType) {
+    inspectedTerrain = terrain;
+    tilesetInspector.classList.add('open');
+    renderTilesetInspector();
+}
 
-    // Find a good default threshold (midpoint between highest and 1.0)
+function closeTilesetInspector() {
+    inspectedTerrain = null;
+    tilesetInspector.classList.remove('open');
+}
+
+function renderTilesetInspector() {
+    if (inspectedTerrain === null) return;
+    const bucket = currentBuckets.find(b => b.terrainType === inspectedTerrain);
+    const assets = terrainAssets.get(inspectedTerrain);
+    if (!bucket || !assets) {
+        closeTilesetInspector(); // Bucket removed or its texture dropped
+        return;
+    }
+
+    // Every role listed per tile - a role with several tiles has weighted variants, but a tile used by
+    // several roles is a mapping mistake
+    const rolesByTile = new Map<number, number[]>();
+    assets.roleVariants.forEach((variants, role) => variants.forEach(variant => {
+        const roles = rolesByTile.get(variant.id) ?? [];
+        if (!roles.includes(role)) rolesByTile.set(variant.id, [...roles, role]);
+    }));
+    const duplicateRoles = [...assets.roleVariants.entries()]
+        .filter(([, variants]) => variants.some(variant => rolesByTile.get(variant.id)!.length > 1))
+        .map(([role]) => role);
+    const variantRoles = [...assets.roleVariants.entries()].filter(([, variants]) => variants.length > 1).map(([role]) => role);
+
+    const { layout } = assets;
+    inspectorTitle.textContent = `Tileset Inspector – ${bucket.name}`;
+    inspectorSummary.textContent =
+        `${layout.tileCount} tiles of ${layout.tileWidth}×${layout.tileHeight}px in ${layout.columns} columns ` +
+        `(margin ${layout.margin}, spacing ${layout.spacing}) · ` +
+        `Missing: ${assets.missingRoles.length > 0 ? assets.missingRoles.join(', ') : 'none'} · ` +
+        `Duplicates: ${duplicateRoles.length > 0 ? duplicateRoles.sort((a, b) => a - b).join(', ') : 'none'} · ` +
+        `Variants: ${variantRoles.length > 0 ? variantRoles.sort((a, b) => a - b).join(', ') : 'none'}`;
+
+    inspectorGrid.innerHTML = '';
+    for (let role = 0; role <= 15; role++) {
+        const variants = role === 0 ? [] : assets.roleVariants.get(role) ?? [];
+        const tileId = role === 0 ? undefined : assets.roleToId.get(role);
+
+        const cell = document.createElement('div');
+        cell.className = 'inspector-role';
+
+        const preview = document.createElement('canvas');
+        preview.width = TILE_WIDTH * INSPECTOR_TILE_SCALE;
+        preview.height = TILE_HEIGHT * INSPECTOR_TILE_SCALE;
+        drawInspectorTile(preview, assets, tileId, role);
+        cell.appendChild(preview);
+
+        const label = document.createElement('div');
+        label.textContent = role === 0 ? 'Empty (0) – never drawn' : formatBitmask(role);
+        cell.appendChild(label);
+
+        if (role !== 0) {
+            const tileSelect = document.createElement('select');
+            tileSelect.title = variants.length > 1
+                ? `Main tile for role ${role} - picking a tile replaces all ${variants.length} variants`
+                : `Atlas tile drawn for role ${role}`;
+            const noneOption = document.createElement('option');
+            noneOption.value = '';
+            noneOption.textContent = '— no tile —';
+            tileSelect.appendChild(noneOption);
+            for (let id = 0; id < layout.tileCount; id++) {
+                const option = document.createElement('option');
+                option.value = id.toString();
+                option.textContent = `Tile ${id}`;
+                tileSelect.appendChild(option);
+            }
+            tileSelect.value = tileId === undefined ? '' : tileId.toString();
+            tileSelect.addEventListener('change', () => {
+                try {
+                    remapInspectedRole(role, tileSelect.value === '' ? null : parseInt(tileSelect.value));
+                } catch (err) {
+                    alert(`Failed to remap role ${role}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+                    renderTilesetInspector();
+                }
+            });
+            cell.appendChild(tileSelect);
+        }
+
+        const issues: string[] = [];
+        if (role !== 0 && tileId === undefined) {
+            cell.classList.add('missing');
+            issues.push('Missing – drawn as flat color');
+        } else if (tileId !== undefined) {
+            const sharedWith = [...new Set(variants.flatMap(variant => rolesByTile.get(variant.id)!))].filter(other => other !== role);
+            if (sharedWith.length > 0) issues.push(`Same tile as role ${sharedWith.join(', ')}`);
+            if (issues.length > 0) cell.classList.add('duplicate');
+        }
+        if (issues.length > 0) {
+            const issue = document.createElement('div');
+            issue.className = 'inspector-role-issue';
+            issue.textContent = issues.join(' · ');
+            cell.appendChild(issue);
+        }
+        if (variants.length > 1) {
+            const variantList = document.createElement('div');
+            variantList.className = 'inspector-role-variants';
+            variantList.textContent = `Variants: ${variants.map(variant => `tile ${variant.id} (weight ${variant.weight})`).join(', ')}`;
+            cell.appendChild(variantList);
+        }
+
+        inspectorGrid.appendChild(cell);
+    }
+}
+
+// Atlas crop for one role with the role's expected corners overlaid:
+// filled dots where the terrain should reach the Top/Right/Bottom/Left corner, hollow where it shouldn't
+function drawInspectorTile(canvas: HTMLCanvasElement, assets: TerrainAssets, tileId: number | undefined, role: number) {
+    const ctx = canvas.getContext('2d')!;
+    const w = canvas.width;
+    const h = canvas.height;
+    ctx.clearRect(0, 0, w, h);
+    ctx.imageSmoothingEnabled = false;
+
+    if (tileId !== undefined) {
+        const { srcX, srcY } = getTileSource(assets.layout, tileId);
+        ctx.drawImage(assets.image, srcX, srcY, assets.layout.tileWidth, assets.layout.tileHeight, 0, 0, w, h);
+    }
+
+    // Tile outline
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(w / 2, 0);
+    ctx.lineTo(w, h / 2);
+    ctx.lineTo(w / 2, h);
+    ctx.lineTo(0, h / 2);
+    ctx.closePath();
+    ctx.stroke();
+
+    // Bit 1 = Top, Bit 2 = Right, Bit 4 = Bottom, Bit 8 = Left (see getLayerRole)
+    const inset = 6;
+    const corners: Array<[number, number, number]> = [
+        [1, w / 2, inset],
+        [2, w - inset, h / 2],
+        [4, w / 2, h - inset],
+        [8, inset, h / 2]
+    ];
+    corners.forEach(([bit, x, y]) => {
+        ctx.beginPath();
+        ctx.arc(x, y, 4, 0, Math.PI * 2);
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#ffff00';
+        if (role & bit) {
+            ctx.fillStyle = '#ffff00';
+            ctx.fill();
+        }
+        ctx.stroke();
+    });
+}
+
+// Point a role at another atlas tile (or none) and rebuild the inspected terrain's assets
+function remapInspectedRole(role: number, tileId: number | null) {
+    if (inspectedTerrain === null) return;
+    const bucket = currentBuckets.find(b => b.terrainType === inspectedTerrain);
+    const assets = terrainAssets.get(inspectedTerrain);
+    if (!bucket || !assets) return;
+
+    // Replacing every entry for the role also resolves duplicates (and drops any weighted variants)
+    const [wangSet, ...otherSets] = assets.wangData.wang_sets;
+    const members = wangSet.members.filter(member => member.role !== role);
+    if (tileId !== null) members.push({ id: tileId, role });
+    members.sort((a, b) => a.id - b.id || a.role - b.role);
+    const wangData: WangTileData = { ...assets.wangData, wang_sets: [{ ...wangSet, members }, ...otherSets] };
+
+    terrainAssets.set(bucket.terrainType, buildTerrainAssets(assets.image, wangData, bucket.name));
+
+    // Keep the fix with the bucket (and in saved projects) like an uploaded atlas + Wang JSON
+    if (!bucket.customTextureLoaded) {
+        bucket.customTextureDataUrl = imageToDataUrl(assets.image);
+        bucket.customTextureLoaded = true;
+        delete bucket.texturePack;
+    }
+    bucket.customWangJson = JSON.stringify(wangData);
+
+    grid.invalidateAll(); // New role mapping for this terrain
+    generateBucketInputs(); // Missing-role warning and texture picker state
+    renderTilesetInspector();
+}
+
+document.getElementById('btnSaveWangJson')!.addEventListener('click', () => {
+    if (inspectedTerrain === null) return;
+    const bucket = currentBuckets.find(b => b.terrainType === inspectedTerrain);
+    const assets = terrainAssets.get(inspectedTerrain);
+    if (!bucket || !assets) return;
+
+    const slug = bucket.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'terrain';
+    const fileName = `${slug}.json`;
+    downloadBlob(new Blob([JSON.stringify(assets.wangData, null, '\t')], { type: 'application/json' }), fileName);
+    console.log(`Saved Wang JSON for ${bucket.name} as ${fileName}`);
+});
+
+document.getElementById('btnCloseInspector')!.addEventListener('click', closeTilesetInspector);
+
+// --- ATLAS GENERATOR ---
+// Synthesizes a complete 15-role atlas from one seamless base texture (see atlas.ts). The result can be
+// downloaded as PNG + Wang JSON or assigned straight to a bucket, where it behaves like an uploaded atlas.
+const atlasGenHeader = document.getElementById('atlasGenHeader')!;
+const atlasGenContent = document.getElementById('atlasGenContent')!;
+const atlasBaseInput = document.getElementById('atlasBaseInput') as HTMLInputElement;
+const atlasBaseStatus = document.getElementById('atlasBaseStatus')!;
+const atlasMaskInput = document.getElementById('atlasMaskInput') as HTMLInputElement;
+const atlasMaskStatus = document.getElementById('atlasMaskStatus')!;
+const configAtlasSoftness = document.getElementById('configAtlasSoftness') as HTMLInputElement;
+const configAtlasEdgeNoise = document.getElementById('configAtlasEdgeNoise') as HTMLInputElement;
+const configAtlasNoiseScale = document.getElementById('configAtlasNoiseScale') as HTMLInputElement;
+const configAtlasSeed = document.getElementById('configAtlasSeed') as HTMLInputElement;
+const atlasPreview = document.getElementById('atlasPreview') as HTMLCanvasElement;
+const atlasTargetBucket = document.getElementById('atlasTargetBucket') as HTMLSelectElement;
+const btnAtlasAssign = document.getElementById('btnAtlasAssign') as HTMLButtonElement;
+const btnAtlasDownload = document.getElementById('btnAtlasDownload') as HTMLButtonElement;
+
+let atlasBase: { name: string; pixels: PixelImage } | null = null;
+let atlasMask: PixelImage | null = null;
+let generatedWangData: WangTileData | null = null; // Wang JSON for the atlas currently in atlasPreview
+
+atlasGenHeader.addEventListener('click', () => {
+    const arrow = atlasGenHeader.querySelector('.collapsible-arrow')!;
+    arrow.classList.toggle('collapsed');
+    atlasGenContent.classList.toggle('collapsed');
+});
+
+// Decode an image file to raw RGBA pixels
+async function loadPixelImage(file: File): Promise<PixelImage> {
+    if (!file.type.startsWith('image/')) {
+        throw new Error(`${file.name} is not an image`);
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+        const img = new Image();
+        await new Promise<void>((resolve, reject) => {
+            img.onload = () => resolve();
+            img.onerror = () => reject(new Error(`Failed to decode ${file.name}`));
+            img.src = url;
+        });
+        const ctx = imageToCanvas(img).getContext('2d')!;
+        const { width, height, data } = ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight);
+        return { width, height, data };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+function readAtlasGeneratorSettings(): AtlasGeneratorSettings {
+    const seed = parseInt(configAtlasSeed.value);
+    return {
+        seed: isNaN(seed) ? DEFAULT_ATLAS_GENERATOR.seed : seed,
+        softness: parseFloat(configAtlasSoftness.value),
+        edgeNoise: parseFloat(configAtlasEdgeNoise.value),
+        noiseScale: parseInt(configAtlasNoiseScale.value)
+    };
+}
+
+// Rebuild the preview atlas from the current base texture, mask and settings
+function updateAtlasPreview() {
+    const settings = readAtlasGeneratorSettings();
+    document.getElementById('atlasSoftnessValue')!.textContent = settings.softness.toFixed(2);
+    document.getElementById('atlasEdgeNoiseValue')!.textContent = settings.edgeNoise.toFixed(2);
+    document.getElementById('atlasNoiseScaleValue')!.textContent = settings.noiseScale.toString();
+    atlasMaskStatus.textContent = atlasMask ? `${atlasMask.width}x${atlasMask.height} mask` : 'Procedural noise';
+
+    btnAtlasDownload.disabled = atlasBase === null;
+    btnAtlasAssign.disabled = atlasBase === null || currentBuckets.length === 0;
+    if (!atlasBase) {
+        generatedWangData = null;
+        atlasPreview.width = atlasPreview.height = 0;
+        return;
+    }
+
+    const atlas = synthesizeWangAtlas(atlasBase.pixels, atlasMask, TILE_WIDTH, TILE_HEIGHT, settings);
+    atlasPreview.width = atlas.image.width;
+    atlasPreview.height = atlas.image.height;
+    const previewCtx = atlasPreview.getContext('2d')!;
+    const imageData = previewCtx.createImageData(atlas.image.width, atlas.image.height);
+    imageData.data.set(atlas.image.data);
+    previewCtx.putImageData(imageData, 0, 0);
+    generatedWangData = {
+        tile_width: TILE_WIDTH,
+        tile_height: TILE_HEIGHT,
+        columns: atlas.columns,
+        wang_sets: [{ members: atlas.members }]
+    };
+}
+
+// Keep the target picker in sync with the bucket list (called from generateBucketInputs)
+function updateAtlasTargetOptions() {
+    const selected = atlasTargetBucket.value;
+    atlasTargetBucket.innerHTML = '';
+    currentBuckets.forEach(bucket => {
+        const option = document.createElement('option');
+        option.value = bucket.terrainType.toString();
+        option.textContent = bucket.name;
+        atlasTargetBucket.appendChild(option);
+    });
+    if (currentBuckets.some(bucket => bucket.terrainType.toString() === selected)) {
+        atlasTargetBucket.value = selected;
+    }
+    btnAtlasAssign.disabled = atlasBase === null || currentBuckets.length === 0;
+}
+
+document.getElementById('btnAtlasBase')!.addEventListener('click', () => atlasBaseInput.click());
+document.getElementById('btnAtlasMask')!.addEventListener('click', () => atlasMaskInput.click());
+document.getElementById('btnAtlasMaskClear')!.addEventListener('click', () => {
+    atlasMask = null;
+    updateAtlasPreview();
+});
+
+atlasBaseInput.addEventListener('change', async () => {
+    const file = atlasBaseInput.files?.[0];
+    atlasBaseInput.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+        atlasBase = { name: file.name.replace(/\.[^.]+$/, ''), pixels: await loadPixelImage(file) };
+        atlasBaseStatus.textContent = `${file.name} (${atlasBase.pixels.width}x${atlasBase.pixels.height})`;
+        updateAtlasPreview();
+    } catch (err) {
+        alert(`Failed to load base texture: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        console.error('Atlas base texture load error:', err);
+    }
+});
+
+atlasMaskInput.addEventListener('change', async () => {
+    const file = atlasMaskInput.files?.[0];
+    atlasMaskInput.value = '';
+    if (!file) return;
+
+    try {
+        atlasMask = await loadPixelImage(file);
+        updateAtlasPreview();
+    } catch (err) {
+        alert(`Failed to load edge mask: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        console.error('Atlas edge mask load error:', err);
+    }
+});
+
+[configAtlasSoftness, configAtlasEdgeNoise, configAtlasNoiseScale, configAtlasSeed].forEach(input => {
+    input.addEventListener('input', updateAtlasPreview);
+});
+
+btnAtlasDownload.addEventListener('click', () => {
+    if (!atlasBase || !generatedWangData) return;
+
+    // Matching names so the pair can be uploaded together on a bucket
+    const slug = atlasBase.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'terrain';
+    const wangData = generatedWangData;
+    atlasPreview.toBlob(blob => {
+        if (!blob) {
+            alert('Failed to encode the atlas image');
+            return;
+        }
+        downloadBlob(blob, `${slug}-atlas.png`);
+        downloadBlob(new Blob([JSON.stringify(wangData, null, '\t')], { type: 'application/json' }), `${slug}-atlas.json`);
+        console.log(`Saved generated atlas as ${slug}-atlas.png + ${slug}-atlas.json`);
+    }, 'image/png');
+});
+
+btnAtlasAssign.addEventListener('click', async () => {
+    const bucket = currentBuckets.find(b => b.terrainType.toString() === atlasTargetBucket.value);
+    if (!bucket || !generatedWangData) return;
+
+    try {
+        const dataUrl = atlasPreview.toDataURL('image/png');
+        const wangJson = JSON.stringify(generatedWangData);
+        terrainAssets.set(bucket.terrainType, await createCustomTextureAssets(dataUrl, wangJson, 'Generated atlas'));
+
+        // Stored like an uploaded atlas + Wang JSON so it survives project save/load
+        delete bucket.customTexture;
+        bucket.customTextureDataUrl = dataUrl;
+        bucket.customWangJson = wangJson;
+        bucket.customTextureLoaded = true;
+        delete bucket.texturePack;
+        grid.invalidateAll(); // New atlas for this terrain
+        generateBucketInputs();
+        console.log(`Generated atlas assigned to ${bucket.name}`);
+    } catch (err) {
+        alert(`Failed to assign atlas: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        console.error('Atlas assign error:', err);
+    }
+});
+
+// --- BIOME TABLE EDITOR ---
+const configBiomeMode = document.getElementById('configBiomeMode') as HTMLInputElement;
+const biomeEditor = document.getElementById('biomeEditor')!;
+const biomeTable = document.getElementById('biomeTable')!;
+const configMoistureFrequency = document.getElementById('configMoistureFrequency') as HTMLInputElement;
+const moistureFrequencyValue = document.getElementById('moistureFrequencyValue')!;
+
+function renderBiomeEditor() {
+    configBiomeMode.checked = currentBiome.enabled;
+    biomeEditor.style.display = currentBiome.enabled ? 'block' : 'none';
+    bucketsList.classList.toggle('biome-mode', currentBiome.enabled); // Thresholds are unused in biome mode
+    configMoistureFrequency.value = currentBiome.moistureFrequency.toString();
+    moistureFrequencyValue.textContent = currentBiome.moistureFrequency.toFixed(3);
+
+    // Cells pointing at removed buckets fall back to the first bucket
+    const fallback = currentBuckets[0].terrainType;
+    currentBiome.table = currentBiome.table.map(row =>
+        row.map(type => currentBuckets.some(b => b.terrainType === type) ? type : fallback));
+
+    biomeTable.innerHTML = '';
+    const table = document.createElement('table');
+
+    // Header: one column per moisture band, labelled with its lower bound
+    const header = document.createElement('tr');
+    const corner = document.createElement('th');
+    corner.textContent = 'Elev ↓ / Moist →';
+    header.appendChild(corner);
+    for (let m = 0; m <= currentBiome.moistureBreaks.length; m++) {
+        const th = document.createElement('th');
+        th.appendChild(createBreakControl(currentBiome.moistureBreaks, m, () => removeMoistureBand(m)));
+        header.appendChild(th);
+    }
+    table.appendChild(header);
+
+    // Rows from highest elevation band to lowest, like a Whittaker diagram
+    for (let e = currentBiome.elevationBreaks.length; e >= 0; e--) {
+        const tr = document.createElement('tr');
+        const th = document.createElement('th');
+        th.appendChild(createBreakControl(currentBiome.elevationBreaks, e, () => removeElevationBand(e)));
+        tr.appendChild(th);
+
+        for (let m = 0; m <= currentBiome.moistureBreaks.length; m++) {
+            const td = document.createElement('td');
+            const select = document.createElement('select');
+            currentBuckets.forEach(bucket => {
+                const option = document.createElement('option');
+                option.value = bucket.terrainType.toString();
+                option.textContent = bucket.name;
+                select.appendChild(option);
+            });
+            select.value = currentBiome.table[e][m].toString();
+            td.style.backgroundColor = currentBuckets.find(b => b.terrainType === currentBiome.table[e][m])?.color ?? '';
+            select.addEventListener('change', () => {
+                currentBiome.table[e][m] = parseInt(select.value) as TerrainType;
+                td.style.backgroundColor = currentBuckets.find(b => b.terrainType === currentBiome.table[e][m])?.color ?? '';
+                updatePreviewGrid();
+            });
+            td.appendChild(select);
+            tr.appendChild(td);
+        }
+        table.appendChild(tr);
+    }
+
+    biomeTable.appendChild(table);
+}
+
+// Lower-bound input for band `band` (band 0 always starts at -1) plus a remove button
+function createBreakControl(breaks: number[], band: number, onRemove: () => void): HTMLElement {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'biome-break';
+
+    if (band === 0) {
+        const label = document.createElement('span');
+        label.textContent = '≥ -1';
+        wrapper.appendChild(label);
+    } else {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = '-1';
+        input.max = '1';
+        input.step = '0.05';
+        input.value = breaks[band - 1].toString();
+        input.title = 'Lower bound of this band';
+        input.addEventListener('change', () => {
+            // Keep breaks ascending so bands never overlap
+            const min = band > 1 ? breaks[band - 2] : -1;
+            const max = band < breaks.length ? breaks[band] : 1;
+            const value = parseFloat(input.value);
+            breaks[band - 1] = Math.max(min, Math.min(max, isNaN(value) ? breaks[band - 1] : value));
+            input.value = breaks[band - 1].toString();
+            updatePreviewGrid();
+        });
+        wrapper.appendChild(input);
+    }
+
+    if (breaks.length > 0) {
+        const removeBtn = document.createElement('button');
+        removeBtn.textContent = '×';
+        removeBtn.title = 'Remove this band';
+        removeBtn.addEventListener('click', onRemove);
+        wrapper.appendChild(removeBtn);
+    }
+    return wrapper;
+}
+
+function removeElevationBand(band: number) {
+    currentBiome.table.splice(band, 1);
+    currentBiome.elevationBreaks.splice(Math.max(0, band - 1), 1);
+    renderBiomeEditor();
+    updatePreviewGrid();
+}
+
+function removeMoistureBand(band: number) {
+    currentBiome.table.forEach(row => row.splice(band, 1));
+    currentBiome.moistureBreaks.splice(Math.max(0, band - 1), 1);
+    renderBiomeEditor();
+    updatePreviewGrid();
+}
+
+// New bands split the top band in half and copy its terrain
+document.getElementById('btnAddElevationBand')!.addEventListener('click', () => {
+    const breaks = currentBiome.elevationBreaks;
+    const lower = breaks.length > 0 ? breaks[breaks.length - 1] : -1;
+    breaks.push(Math.round((lower + 1) / 2 * 100) / 100);
+    currentBiome.table.push([...currentBiome.table[currentBiome.table.length - 1]]);
+    renderBiomeEditor();
+    updatePreviewGrid();
+});
+
+document.getElementById('btnAddMoistureBand')!.addEventListener('click', () => {
+    const breaks = currentBiome.moistureBreaks;
+    const lower = breaks.length > 0 ? breaks[breaks.length - 1] : -1;
+    breaks.push(Math.round((lower + 1) / 2 * 100) / 100);
+    currentBiome.table.forEach(row => row.push(row[row.length - 1]));
+    renderBiomeEditor();
+    updatePreviewGrid();
+});
+
+configBiomeMode.addEventListener('change', () => {
+    currentBiome.enabled = configBiomeMode.checked;
+    renderBiomeEditor();
+    updatePreviewGrid();
+});
+
+configMoistureFrequency.addEventListener('input', () => {
+    currentBiome.moistureFrequency = parseFloat(configMoistureFrequency.value);
+    moistureFrequencyValue.textContent = currentBiome.moistureFrequency.toFixed(3);
+    updatePreviewGrid();
+});
+
+// Add new bucket button handler
+const btnAddBucket = document.getElementById('btnAddBucket')!;
+btnAddBucket.addEventListener('click', () => {
+    // Generate a random color
+    const randomColor = '#' + Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0');
+
+    // Find a good default threshold (midpoint between highest and 1.0)
     const maxThreshold = Math.max(...currentBuckets.map(b => b.threshold));
     const defaultThreshold = Math.min(maxThreshold + 0.2, 1.0);
 
@@ -1795,42 +4158,233 @@ document.addEventListener('mouseup', () => {
     isResizingDebug = false;
 });
 
+// Generate into the main grid in the worker; a newer request cancels an older one.
+// Resolves true once the map is applied (and recorded in history when a label is given).
+async function generateMainMap(config: MapConfig, historyLabel: string | null): Promise<boolean> {
+    // The settings this job applies - read now, since the panel may change while the worker runs
+    const jobSettings = captureGenerationSettings();
+
+    if (configInfinite.checked) {
+        // Infinite worlds generate chunks lazily as the camera pans, so there is no job to wait for
+        mapGenerator.cancel();
+        generationStatus.textContent = '';
+        const seed = config.seed !== null ? config.seed : Math.floor(Math.random() * 1000000);
+        grid.applyInfiniteWorld(config.buckets, new InfiniteWorld(config, seed));
+        appliedGenerationSettings = jobSettings;
+        mapHistory.clear(); // Undo snapshots hold whole bounded maps, which don't apply here
+        return true;
+    }
+
+    // Map edits and undo/redo are blocked until the job finishes, so this is still the map the step
+    // replaces when the result arrives (infinite worlds aren't recorded)
+    const before = historyLabel && !grid.world ? captureMapState() : null;
+    const jobId = ++mainMapJobId;
+    mapHistory.setLocked(true);
+
+    generationStatus.textContent = 'Generating…';
+    try {
+        const result = await mapGenerator.generate(config, config.width, config.height, (stage, progress) => {
+            generationStatus.textContent = `${stage}… ${Math.round(progress * 100)}%`;
+        });
+        if (!result) return false; // Superseded - the newer job owns the status text now
+
+        generationStatus.textContent = '';
+        const wasInfinite = grid.world !== null;
+        grid.applyGeneratedMap(config.buckets, result);
+        if (historyLabel && before) {
+            recordMapChange(historyLabel, before, jobSettings);
+        } else {
+            appliedGenerationSettings = jobSettings;
+            if (wasInfinite) mapHistory.clear(); // There is no bounded map to undo back to
+        }
+        return true;
+    } catch (err) {
+        generationStatus.textContent = '';
+        alert(`Map generation failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        console.error('Generation error:', err);
+        return false;
+    } finally {
+        // A superseding job keeps the lock; a cancelled or finished one releases it
+        if (jobId === mainMapJobId) mapHistory.setLocked(false);
+    }
+}
+
+// Map width and height are each limited to 1-500 cells
+function isValidMapDimension(value: number): boolean {
+    return Number.isInteger(value) && value >= 1 && value <= 500;
+}
+
+// Snapshot of the whole config panel as a MapConfig (copied, so later edits don't leak into a running job)
+function readMapConfig(seed: number | null, width: number, height: number): MapConfig {
+    return {
+        ...readGenerationSettings(),
+        biome: cloneBiome(currentBiome),
+        seed,
+        width,
+        height,
+        buckets: currentBuckets.map(b => ({ ...b }))
+    };
+}
+
+// The same config with the stages an infinite world skips (see generateChunk) switched off, so a
+// whole-map preview matches the chunks that will stream in
+function withoutFiniteStages(config: MapConfig): MapConfig {
+    return {
+        ...config,
+        falloff: { ...DEFAULT_FALLOFF, curve: [...DEFAULT_FALLOFF.curve] },
+        erosion: { ...DEFAULT_EROSION },
+        cleanup: { ...DEFAULT_CLEANUP },
+        rivers: { ...DEFAULT_RIVERS }
+    };
+}
+
 // Update preview grid with current config settings
+// (an infinite world previews a minimap-sized sample of the world's origin)
 function updatePreviewGrid() {
-    const size = parseInt(configMapSize.value);
-    const macro = parseFloat(configScaleMacro.value);
-    const mid = parseFloat(configScaleMid.value);
-    const micro = parseFloat(configScaleMicro.value);
-    const scale = macro + mid + micro;
+    const infinite = configInfinite.checked;
+    const width = infinite ? MINIMAP_WORLD_WINDOW : parseInt(configMapWidth.value);
+    const height = infinite ? MINIMAP_WORLD_WINDOW : parseInt(configMapHeight.value);
     const seedInput = configSeed.value.trim();
     const seed = seedInput === '' ? null : parseFloat(seedInput);
 
     // Validate size
-    if (size < 1 || size > 500 || isNaN(size)) return;
+    if (!isValidMapDimension(width) || !isValidMapDimension(height)) return;
     if (seedInput !== '' && isNaN(seed!)) return;
 
-    // Create or resize preview grid if needed
-    if (!previewGrid || previewGrid.width !== size || previewGrid.height !== size) {
-        previewGrid = new DualGridSystem(size, size);
-    }
+    // Generate preview map using current bucket configuration (replacing any preview still in flight)
+    const mapConfig = readMapConfig(seed, width, height);
+    const config = infinite ? withoutFiniteStages(mapConfig) : mapConfig;
+    previewGenerator.generate(config, width, height, (stage, progress) => {
+        previewStatus.textContent = `${stage}… ${Math.round(progress * 100)}%`;
+    }).then(result => {
+        if (!result) return;
+        previewGrid ??= new DualGridSystem(width, height);
+        previewGrid.applyGeneratedMap(config.buckets, result); // Resizes to the generated map if needed
+        previewStatus.textContent = 'Adjust settings below to see changes in real-time';
+    }).catch(err => {
+        previewStatus.textContent = `Preview failed: ${err instanceof Error ? err.message : 'Unknown error'}`;
+    });
+}
 
-    // Generate preview map using current bucket configuration
-    previewGrid.generatePerlinMap({ scale, seed, size, buckets: currentBuckets });
+// Read the Map Generation section. The Macro/Mid/Micro sliders are three noise layers;
+// the fractal settings add detail octaves to each
+function readGenerationSettings(): GenerationSettings {
+    return {
+        noiseLayers: [
+            { frequency: parseFloat(configScaleMacro.value), amplitude: parseFloat(configWeightMacro.value) || 0, mode: parseInt(configModeMacro.value) as NoiseMode },
+            { frequency: parseFloat(configScaleMid.value), amplitude: parseFloat(configWeightMid.value) || 0, mode: parseInt(configModeMid.value) as NoiseMode },
+            { frequency: parseFloat(configScaleMicro.value), amplitude: parseFloat(configWeightMicro.value) || 0, mode: parseInt(configModeMicro.value) as NoiseMode }
+        ],
+        fractal: {
+            octaves: parseInt(configOctaves.value),
+            lacunarity: parseFloat(configLacunarity.value),
+            persistence: parseFloat(configPersistence.value)
+        },
+        warp: {
+            strength: parseFloat(configWarpStrength.value),
+            frequency: parseFloat(configWarpFrequency.value),
+            iterations: parseInt(configWarpIterations.value)
+        },
+        falloff: {
+            shape: parseInt(configFalloffShape.value) as FalloffShape,
+            strength: parseFloat(configFalloffStrength.value),
+            curve: parseFalloffCurve(configFalloffCurve.value),
+            mask: falloffMask
+        },
+        erosion: {
+            droplets: parseInt(configErosionDroplets.value),
+            rain: parseFloat(configErosionRain.value),
+            sedimentCapacity: parseFloat(configErosionCapacity.value),
+            thermalIterations: parseInt(configThermalIterations.value),
+            talus: parseFloat(configThermalTalus.value)
+        },
+        cleanup: {
+            smoothingPasses: parseInt(configSmoothingPasses.value),
+            minRegionSize: parseInt(configMinRegionSize.value),
+            resolveDiagonals: configResolveDiagonals.checked
+        },
+        rivers: {
+            count: parseInt(configRiverCount.value),
+            minLength: parseInt(configRiverMinLength.value),
+            sourceElevation: parseFloat(configRiverSource.value),
+            maxRadius: parseInt(configRiverWidth.value),
+            waterType: (configRiverWater.value === '' ? DEFAULT_RIVERS.waterType : parseInt(configRiverWater.value)) as TerrainType,
+            bankType: configRiverBank.value === '' ? null : parseInt(configRiverBank.value) as TerrainType
+        }
+    };
 }
 
-// Calculate combined scale from three sliders
-function updateCombinedScale() {
-    const macro = parseFloat(configScaleMacro.value);
-    const mid = parseFloat(configScaleMid.value);
-    const micro = parseFloat(configScaleMicro.value);
-    const total = macro + mid + micro;
+// "1, 0.8, 0" -> [1, 0.8, 0]; unparseable entries are dropped and values clamped to 0-1
+function parseFalloffCurve(text: string): number[] {
+    const curve = text.split(',').map(v => parseFloat(v)).filter(v => !isNaN(v)).map(v => Math.max(0, Math.min(1, v)));
+    return curve.length > 0 ? curve : [...DEFAULT_FALLOFF.curve];
+}
 
-    scaleMacroValue.textContent = macro.toFixed(2);
-    scaleMidValue.textContent = mid.toFixed(3);
-    scaleMicroValue.textContent = micro.toFixed(4);
-    scaleTotalValue.textContent = total.toFixed(5);
+// Fill the Map Generation section from saved settings (project load)
+function writeGenerationSettings(settings: GenerationSettings) {
+    const controls = [
+        { scale: configScaleMacro, weight: configWeightMacro, mode: configModeMacro },
+        { scale: configScaleMid, weight: configWeightMid, mode: configModeMid },
+        { scale: configScaleMicro, weight: configWeightMicro, mode: configModeMicro }
+    ];
+    controls.forEach((control, i) => {
+        const layer = settings.noiseLayers[i];
+        control.scale.value = (layer?.frequency ?? 0).toString();
+        control.weight.value = (layer?.amplitude ?? 0).toString();
+        control.mode.value = (layer?.mode ?? NoiseMode.Standard).toString();
+    });
+    configOctaves.value = settings.fractal.octaves.toString();
+    configLacunarity.value = settings.fractal.lacunarity.toString();
+    configPersistence.value = settings.fractal.persistence.toString();
+    configWarpStrength.value = settings.warp.strength.toString();
+    configWarpFrequency.value = settings.warp.frequency.toString();
+    configWarpIterations.value = settings.warp.iterations.toString();
+    configFalloffShape.value = settings.falloff.shape.toString();
+    configFalloffStrength.value = settings.falloff.strength.toString();
+    configFalloffCurve.value = settings.falloff.curve.join(', ');
+    falloffMask = settings.falloff.mask;
+    updateFalloffMaskStatus();
+    configErosionDroplets.value = settings.erosion.droplets.toString();
+    configErosionRain.value = settings.erosion.rain.toString();
+    configErosionCapacity.value = settings.erosion.sedimentCapacity.toString();
+    configThermalIterations.value = settings.erosion.thermalIterations.toString();
+    configThermalTalus.value = settings.erosion.talus.toString();
+    configSmoothingPasses.value = settings.cleanup.smoothingPasses.toString();
+    configMinRegionSize.value = settings.cleanup.minRegionSize.toString();
+    configResolveDiagonals.checked = settings.cleanup.resolveDiagonals;
+    configRiverCount.value = settings.rivers.count.toString();
+    configRiverMinLength.value = settings.rivers.minLength.toString();
+    configRiverSource.value = settings.rivers.sourceElevation.toString();
+    configRiverWidth.value = settings.rivers.maxRadius.toString();
+    configRiverWater.value = settings.rivers.waterType.toString();
+    configRiverBank.value = settings.rivers.bankType === null ? '' : settings.rivers.bankType.toString();
+}
 
-    // Update preview when scale changes
+// Refresh the slider value labels
+function updateNoiseLabels() {
+    scaleMacroValue.textContent = parseFloat(configScaleMacro.value).toFixed(2);
+    scaleMidValue.textContent = parseFloat(configScaleMid.value).toFixed(3);
+    scaleMicroValue.textContent = parseFloat(configScaleMicro.value).toFixed(4);
+    octavesValue.textContent = configOctaves.value;
+    lacunarityValue.textContent = parseFloat(configLacunarity.value).toFixed(2);
+    persistenceValue.textContent = parseFloat(configPersistence.value).toFixed(2);
+    warpStrengthValue.textContent = parseFloat(configWarpStrength.value).toFixed(1);
+    warpFrequencyValue.textContent = parseFloat(configWarpFrequency.value).toFixed(3);
+    warpIterationsValue.textContent = configWarpIterations.value;
+    falloffStrengthValue.textContent = parseFloat(configFalloffStrength.value).toFixed(2);
+    erosionDropletsValue.textContent = configErosionDroplets.value;
+    erosionRainValue.textContent = parseFloat(configErosionRain.value).toFixed(2);
+    erosionCapacityValue.textContent = parseFloat(configErosionCapacity.value).toFixed(1);
+    thermalIterationsValue.textContent = configThermalIterations.value;
+    thermalTalusValue.textContent = parseFloat(configThermalTalus.value).toFixed(3);
+    smoothingPassesValue.textContent = configSmoothingPasses.value;
+    minRegionSizeValue.textContent = parseInt(configMinRegionSize.value) > 1 ? configMinRegionSize.value : 'Off';
+    riverCountValue.textContent = configRiverCount.value;
+    riverMinLengthValue.textContent = configRiverMinLength.value;
+    riverSourceValue.textContent = parseFloat(configRiverSource.value).toFixed(2);
+    riverWidthValue.textContent = configRiverWidth.value;
+
+    // Update preview when noise settings change
     updatePreviewGrid();
 }
 
@@ -1845,19 +4399,100 @@ btnConfig.addEventListener('click', () => {
     }
 });
 
-// Update scale display values when sliders change
-configScaleMacro.addEventListener('input', updateCombinedScale);
-configScaleMid.addEventListener('input', updateCombinedScale);
-configScaleMicro.addEventListener('input', updateCombinedScale);
+// Update noise display values when sliders change
+[configScaleMacro, configScaleMid, configScaleMicro, configOctaves, configLacunarity, configPersistence,
+    configWarpStrength, configWarpFrequency, configWarpIterations, configFalloffStrength,
+    configErosionDroplets, configErosionRain, configErosionCapacity, configThermalIterations, configThermalTalus,
+    configSmoothingPasses, configMinRegionSize, configRiverCount, configRiverMinLength, configRiverSource, configRiverWidth].forEach(input => {
+    input.addEventListener('input', updateNoiseLabels);
+});
+[configWeightMacro, configWeightMid, configWeightMicro, configModeMacro, configModeMid, configModeMicro,
+    configFalloffShape, configFalloffCurve, configResolveDiagonals, configRiverWater, configRiverBank].forEach(input => {
+    input.addEventListener('input', updatePreviewGrid);
+});
+
+// Falloff mask image: downsample to grayscale values so the mask can be saved and generated without the image
+function updateFalloffMaskStatus() {
+    falloffMaskStatus.textContent = falloffMask ? `${falloffMask.width}x${falloffMask.height} mask` : 'No mask';
+}
+
+async function loadFalloffMask(file: File): Promise<FalloffMask> {
+    if (!file.type.startsWith('image/')) {
+        throw new Error('Mask must be an image');
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+        const img = new Image();
+        await new Promise<void>((resolve, reject) => {
+            img.onload = () => resolve();
+            img.onerror = () => reject(new Error('Failed to decode mask image'));
+            img.src = url;
+        });
+
+        const scale = Math.min(1, FALLOFF_MASK_MAX_SIZE / Math.max(img.width, img.height));
+        const width = Math.max(1, Math.round(img.width * scale));
+        const height = Math.max(1, Math.round(img.height * scale));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(img, 0, 0, width, height);
+
+        const pixels = ctx.getImageData(0, 0, width, height).data;
+        const values: number[] = [];
+        for (let i = 0; i < pixels.length; i += 4) {
+            // Luma, treating transparent pixels as black (water)
+            const luma = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+            values.push(Math.round(luma * pixels[i + 3] / 255));
+        }
+        return { width, height, values };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+btnFalloffMask.addEventListener('click', () => falloffMaskInput.click());
+
+falloffMaskInput.addEventListener('change', async () => {
+    const file = falloffMaskInput.files?.[0];
+    falloffMaskInput.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+        falloffMask = await loadFalloffMask(file);
+        configFalloffShape.value = FalloffShape.Image.toString();
+        updateFalloffMaskStatus();
+        updatePreviewGrid();
+    } catch (err) {
+        alert(`Failed to load falloff mask: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        console.error('Falloff mask load error:', err);
+    }
+});
 
 // Update preview when map size or seed changes
-configMapSize.addEventListener('input', updatePreviewGrid);
+configMapWidth.addEventListener('input', updatePreviewGrid);
+configMapHeight.addEventListener('input', updatePreviewGrid);
 configSeed.addEventListener('input', updatePreviewGrid);
 
+// Infinite worlds have no size, and Apply starts streaming instead of generating a whole map
+function updateInfiniteControls() {
+    const infinite = configInfinite.checked;
+    configMapWidth.disabled = infinite;
+    configMapHeight.disabled = infinite;
+    btnApplyConfig.textContent = infinite ? 'Apply & Start Infinite World' : 'Apply & Generate Full Map';
+}
+
+configInfinite.addEventListener('change', () => {
+    updateInfiniteControls();
+    updatePreviewGrid();
+});
+updateInfiniteControls(); // Browsers may restore the checkbox state on reload
+
 // Generate and display initial seed
 const initialSeed = Math.floor(Math.random() * 1000000);
 configSeed.value = initialSeed.toString();
-grid.generatePerlinMap({ scale: 0.015, seed: initialSeed, size: GRID_SIZE, buckets: DEFAULT_BUCKETS });
+generateMainMap(readMapConfig(initialSeed, GRID_SIZE, GRID_SIZE), null);
 
 // Random seed button
 btnRandomSeed.addEventListener('click', () => {
@@ -1868,17 +4503,14 @@ btnRandomSeed.addEventListener('click', () => {
 
 // Apply configuration and regenerate full map
 btnApplyConfig.addEventListener('click', () => {
-    const newSize = parseInt(configMapSize.value);
-    const macro = parseFloat(configScaleMacro.value);
-    const mid = parseFloat(configScaleMid.value);
-    const micro = parseFloat(configScaleMicro.value);
-    const scale = macro + mid + micro;
+    const newWidth = parseInt(configMapWidth.value);
+    const newHeight = parseInt(configMapHeight.value);
     const seedInput = configSeed.value.trim();
     const seed = seedInput === '' ? null : parseFloat(seedInput);
 
-    // Validate inputs
-    if (newSize < 1 || newSize > 500) {
-        alert('Map size must be between 1 and 500');
+    // Validate inputs (the size is unused for infinite worlds)
+    if (!configInfinite.checked && (!isValidMapDimension(newWidth) || !isValidMapDimension(newHeight))) {
+        alert('Map width and height must each be between 1 and 500');
         return;
     }
 
@@ -1887,32 +4519,588 @@ btnApplyConfig.addEventListener('click', () => {
         return;
     }
 
-    // Rebuild grid if size changed
-    if (newSize !== grid.width || newSize !== grid.height) {
-        console.log(`Resizing grid from ${grid.width}x${grid.height} to ${newSize}x${newSize}`);
-        // Create new grid with new size
-        const newGrid = new DualGridSystem(newSize, newSize);
-        // Copy over settings
-        newGrid.renderMode = grid.renderMode;
-        newGrid.cameraOffsetX = grid.cameraOffsetX;
-        newGrid.cameraOffsetY = grid.cameraOffsetY;
-        newGrid.zoomLevel = grid.zoomLevel;
-        newGrid.showBaseLayer = grid.showBaseLayer;
-        newGrid.showTransitionLayer = grid.showTransitionLayer;
-        newGrid.showWorldGrid = grid.showWorldGrid;
-        newGrid.showDualGrid = grid.showDualGrid;
-        // Replace global grid reference
-        (window as any).grid = newGrid;
-        Object.assign(grid, newGrid);
+    // Generate full map with same config as preview using current bucket configuration
+    // (the grid is resized when the result is applied)
+    const config = readMapConfig(seed, newWidth, newHeight);
+    generateMainMap(config, 'Apply configuration').then(applied => {
+        if (!applied) return;
+        console.log(`Full map generated with config:`, config);
+
+        // Close panel
+        configPanel.classList.remove('open');
+    });
+});
+
+// --- PROJECT SAVE / LOAD ---
+const btnSaveProject = document.getElementById('btnSaveProject')!;
+const btnOpenProject = document.getElementById('btnOpenProject')!;
+const projectFileInput = document.getElementById('projectFileInput') as HTMLInputElement;
+
+// Migrations keyed by the version they upgrade FROM (v1 -> v2 is PROJECT_MIGRATIONS[1])
+// A parsed project object whose shape is only checked by validateProject, after the migrations
+type ProjectRecord = Record<string, unknown>;
+
+function isProjectRecord(value: unknown): value is ProjectRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Sections of an older project (missing or malformed ones read as empty and fail validation later)
+function projectSection(project: ProjectRecord, key: 'grid' | 'config'): ProjectRecord {
+    const section = project[key];
+    return isProjectRecord(section) ? section : {};
+}
+
+const PROJECT_MIGRATIONS: Record<number, (project: ProjectRecord) => ProjectRecord> = {
+    // v1 -> v2: the three scale sliders became real noise layers (default weights 1 / 0.5 / 0.25)
+    1: (project) => {
+        const { scaleMacro, scaleMid, scaleMicro, ...config } = projectSection(project, 'config');
+        return {
+            ...project,
+            config: {
+                ...config,
+                noiseLayers: [
+                    { frequency: scaleMacro ?? 0, amplitude: 1, mode: NoiseMode.Standard },
+                    { frequency: scaleMid ?? 0, amplitude: 0.5, mode: NoiseMode.Standard },
+                    { frequency: scaleMicro ?? 0, amplitude: 0.25, mode: NoiseMode.Standard }
+                ],
+                fractal: { ...DEFAULT_FRACTAL }
+            }
+        };
+    },
+    // v2 -> v3: domain warping added (off for older projects)
+    2: (project) => ({ ...project, config: { ...projectSection(project, 'config'), warp: { ...DEFAULT_WARP } } }),
+    // v3 -> v4: elevation x moisture biome table added (disabled for older projects)
+    3: (project) => ({ ...project, config: { ...projectSection(project, 'config'), biome: cloneBiome(DEFAULT_BIOME) } }),
+    // v4 -> v5: falloff masks added (none for older projects)
+    4: (project) => ({ ...project, config: { ...projectSection(project, 'config'), falloff: { ...DEFAULT_FALLOFF, curve: [...DEFAULT_FALLOFF.curve] } } }),
+    // v5 -> v6: river generation added (off for older projects)
+    5: (project) => ({ ...project, config: { ...projectSection(project, 'config'), rivers: { ...DEFAULT_RIVERS } } }),
+    // v6 -> v7: erosion added (off for older projects)
+    6: (project) => ({ ...project, config: { ...projectSection(project, 'config'), erosion: { ...DEFAULT_EROSION } } }),
+    // v7 -> v8: cleanup stage added (off for older projects)
+    7: (project) => ({ ...project, config: { ...projectSection(project, 'config'), cleanup: { ...DEFAULT_CLEANUP } } }),
+    // v8 -> v9: square size split into width and height
+    8: (project) => {
+        const { size, ...config } = projectSection(project, 'config');
+        return { ...project, config: { ...config, width: size, height: size } };
+    },
+    // v9 -> v10: map seed saved with the grid (older projects only kept the seed input, which may be empty)
+    9: (project) => ({ ...project, grid: { ...projectSection(project, 'grid'), seed: projectSection(project, 'config').seed ?? 0 } }),
+    // v10 -> v11: elevation saved with the grid (unknown for older projects)
+    10: (project) => ({ ...project, grid: { ...projectSection(project, 'grid'), heights: null } })
+};
+
+function buildProjectFile(): ProjectFile {
+    const seedInput = configSeed.value.trim();
+
+    return {
+        format: PROJECT_FILE_FORMAT,
+        version: PROJECT_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        grid: {
+            width: grid.width,
+            height: grid.height,
+            cells: [...grid.cells],
+            seed: grid.seed,
+            // 4 decimals is finer than the debug panel shows and keeps the file small
+            heights: grid.heights ? Array.from(grid.heights, h => Math.round(h * 10000) / 10000) : null
+        },
+        config: {
+            ...readGenerationSettings(),
+            biome: cloneBiome(currentBiome),
+            seed: seedInput === '' || isNaN(parseFloat(seedInput)) ? null : parseFloat(seedInput),
+            width: parseInt(configMapWidth.value),
+            height: parseInt(configMapHeight.value),
+            buckets: currentBuckets.map(bucket => ({
+                name: bucket.name,
+                color: bucket.color,
+                threshold: bucket.threshold,
+                terrainType: bucket.terrainType,
+                customTextureDataUrl: bucket.customTextureLoaded ? bucket.customTextureDataUrl : undefined,
+                customWangJson: bucket.customTextureLoaded ? bucket.customWangJson : undefined,
+                texturePack: bucket.customTextureLoaded ? undefined : bucket.texturePack
+            }))
+        },
+        view: {
+            renderMode: grid.renderMode,
+            cameraOffsetX: grid.cameraOffsetX,
+            cameraOffsetY: grid.cameraOffsetY,
+            zoomLevel: grid.zoomLevel,
+            showBaseLayer: grid.showBaseLayer,
+            showTransitionLayer: grid.showTransitionLayer,
+            showWorldGrid: grid.showWorldGrid,
+            showDualGrid: grid.showDualGrid
+        }
+    };
+}
+
+// Upgrade a parsed project file to the current schema version, or throw with a readable reason
+function migrateProject(raw: unknown): ProjectFile {
+    if (!isProjectRecord(raw) || raw.format !== PROJECT_FILE_FORMAT) {
+        throw new Error('Not a dual-grid project file');
     }
 
-    // Generate full map with same config as preview using current bucket configuration
-    const config: MapConfig = { scale, seed, size: newSize, buckets: currentBuckets };
-    grid.generatePerlinMap(config);
+    let project = raw;
+    let version = project.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error(`Unsupported project schema version: ${version}`);
+    }
+    if (version > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`Project was saved with schema version ${version}, but this editor only supports up to version ${PROJECT_SCHEMA_VERSION}. Please update the editor.`);
+    }
+
+    while (version < PROJECT_SCHEMA_VERSION) {
+        const migrate = PROJECT_MIGRATIONS[version];
+        if (!migrate) {
+            throw new Error(`No migration available from project schema version ${version}`);
+        }
+        console.log(`Migrating project from schema version ${version} to ${version + 1}`);
+        version++;
+        project = { ...migrate(project), version };
+    }
+
+    // Checked field by field at runtime
+    const migrated = project as unknown as ProjectFile;
+    validateProject(migrated);
+    return migrated;
+}
+
+function validateProject(project: ProjectFile) {
+    const { grid: gridData, config, view } = project;
+
+    if (!gridData || !Number.isInteger(gridData.width) || !Number.isInteger(gridData.height) ||
+        gridData.width < 1 || gridData.height < 1 || gridData.width > 500 || gridData.height > 500) {
+        throw new Error('Project grid dimensions are missing or outside 1-500');
+    }
+    if (typeof gridData.seed !== 'number' || !isFinite(gridData.seed)) {
+        throw new Error('Project map seed is missing or invalid');
+    }
+    if (gridData.heights !== null && (!Array.isArray(gridData.heights) || gridData.heights.length !== gridData.width * gridData.height ||
+        !gridData.heights.every(h => typeof h === 'number' && isFinite(h)))) {
+        throw new Error(`Project elevation data does not match grid size ${gridData.width}x${gridData.height}`);
+    }
+    if (!Array.isArray(gridData.cells) || gridData.cells.length !== gridData.width * gridData.height) {
+        throw new Error(`Project cell data does not match grid size ${gridData.width}x${gridData.height}`);
+    }
+
+    if (!config || !Array.isArray(config.buckets) || config.buckets.length === 0) {
+        throw new Error('Project has no terrain buckets');
+    }
+    if (!Array.isArray(config.noiseLayers) || !config.fractal || !config.warp ||
+        !config.noiseLayers.every(layer => [layer.frequency, layer.amplitude, layer.mode].every(v => typeof v === 'number' && isFinite(v))) ||
+        ![config.fractal.octaves, config.fractal.lacunarity, config.fractal.persistence,
+            config.warp.strength, config.warp.frequency, config.warp.iterations, config.width, config.height].every(v => typeof v === 'number' && isFinite(v)) ||
+        (config.seed !== null && typeof config.seed !== 'number')) {
+        throw new Error('Project map generation settings are malformed');
+    }
+    const falloff = config.falloff;
+    if (!falloff || typeof FalloffShape[falloff.shape] !== 'string' || typeof falloff.strength !== 'number' ||
+        !Array.isArray(falloff.curve) || !falloff.curve.every(v => typeof v === 'number' && isFinite(v)) ||
+        (falloff.mask !== null && (!Number.isInteger(falloff.mask.width) || !Number.isInteger(falloff.mask.height) ||
+            !Array.isArray(falloff.mask.values) || falloff.mask.values.length !== falloff.mask.width * falloff.mask.height))) {
+        throw new Error('Project falloff settings are malformed');
+    }
+    const erosion = config.erosion;
+    if (!erosion || ![erosion.droplets, erosion.rain, erosion.sedimentCapacity, erosion.thermalIterations, erosion.talus]
+        .every(v => typeof v === 'number' && isFinite(v))) {
+        throw new Error('Project erosion settings are malformed');
+    }
+    const cleanup = config.cleanup;
+    if (!cleanup || !Number.isInteger(cleanup.smoothingPasses) || !Number.isInteger(cleanup.minRegionSize) ||
+        typeof cleanup.resolveDiagonals !== 'boolean') {
+        throw new Error('Project cleanup settings are malformed');
+    }
+    const rivers = config.rivers;
+    if (!rivers || ![rivers.count, rivers.minLength, rivers.sourceElevation, rivers.maxRadius].every(v => typeof v === 'number' && isFinite(v)) ||
+        !Number.isInteger(rivers.waterType) || (rivers.bankType !== null && !Number.isInteger(rivers.bankType))) {
+        throw new Error('Project river settings are malformed');
+    }
+    const biome = config.biome;
+    if (!biome || typeof biome.enabled !== 'boolean' || typeof biome.moistureFrequency !== 'number' ||
+        !Array.isArray(biome.elevationBreaks) || !Array.isArray(biome.moistureBreaks) || !Array.isArray(biome.table) ||
+        biome.table.length !== biome.elevationBreaks.length + 1 ||
+        !biome.table.every(row => Array.isArray(row) && row.length === biome.moistureBreaks.length + 1 && row.every(Number.isInteger))) {
+        throw new Error('Project biome table is malformed');
+    }
+    config.buckets.forEach((bucket, index) => {
+        if (typeof bucket.name !== 'string' || typeof bucket.color !== 'string' ||
+            typeof bucket.threshold !== 'number' || !Number.isInteger(bucket.terrainType) ||
+            bucket.terrainType < 0 || bucket.terrainType > 0xffff ||
+            (bucket.texturePack !== undefined && typeof bucket.texturePack !== 'string') ||
+            (bucket.customWangJson !== undefined && typeof bucket.customWangJson !== 'string')) {
+            throw new Error(`Project terrain bucket ${index + 1} is malformed`);
+        }
+    });
+    // Every cell must be one of the saved terrains (this also keeps ids inside the Uint16Array history snapshots)
+    const terrainTypes = new Set(config.buckets.map(bucket => bucket.terrainType));
+    if (!gridData.cells.every(cell => terrainTypes.has(cell))) {
+        throw new Error('Project cell data contains terrain ids without a terrain bucket');
+    }
+
+    if (!view || typeof RenderMode[view.renderMode] !== 'string' ||
+        ![view.cameraOffsetX, view.cameraOffsetY, view.zoomLevel].every(v => typeof v === 'number' && isFinite(v))) {
+        throw new Error('Project view settings are missing or invalid');
+    }
+}
+
+async function applyProject(project: ProjectFile) {
+    const { grid: gridData, config, view } = project;
+
+    // Restore textures first so a failing embedded image leaves the current map untouched
+    const buckets: TerrainBucket[] = config.buckets.map(bucket => ({
+        name: bucket.name,
+        color: bucket.color,
+        threshold: bucket.threshold,
+        terrainType: bucket.terrainType as TerrainType
+    }));
+
+    // Older projects name no pack, so their terrains keep the built-in textures
+    const restoredAssets = new Map(defaultTerrainAssets);
+    for (let i = 0; i < config.buckets.length; i++) {
+        const { customTextureDataUrl: dataUrl, customWangJson: wangJson, texturePack } = config.buckets[i];
+        if (dataUrl) {
+            restoredAssets.set(buckets[i].terrainType, await createCustomTextureAssets(dataUrl, wangJson, `Wang JSON of ${buckets[i].name}`));
+            buckets[i].customTextureDataUrl = dataUrl;
+            buckets[i].customWangJson = wangJson;
+            buckets[i].customTextureLoaded = true;
+        } else if (texturePack) {
+            buckets[i].texturePack = texturePack;
+            const entry = terrainPacks.get(texturePack);
+            if (entry) {
+                restoredAssets.set(buckets[i].terrainType, entry.assets);
+            } else {
+                console.warn(`Project uses texture pack "${texturePack}", which is not in the asset manifest`);
+            }
+        }
+    }
+    terrainAssets.clear();
+    restoredAssets.forEach((assets, terrainType) => terrainAssets.set(terrainType, assets));
+
+    // Rebuild the grid exactly as saved (including any hand edits)
+    grid.resize(gridData.width, gridData.height);
+    grid.seed = gridData.seed; // Before loadCells so the redraw uses the saved tile variants
+    grid.loadCells(gridData.cells);
+    grid.heights = gridData.heights ? Float32Array.from(gridData.heights) : null;
+    grid.setBuckets(buckets);
+
+    // Restore view state
+    grid.renderMode = view.renderMode;
+    grid.cameraOffsetX = view.cameraOffsetX;
+    grid.cameraOffsetY = view.cameraOffsetY;
+    grid.zoomLevel = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.zoomLevel));
+    zoomIndicator.textContent = `${Math.round(grid.zoomLevel * 100)}%`;
+    grid.showBaseLayer = view.showBaseLayer;
+    grid.showTransitionLayer = view.showTransitionLayer;
+    grid.showWorldGrid = view.showWorldGrid;
+    grid.showDualGrid = view.showDualGrid;
+    chkBaseLayer.checked = view.showBaseLayer;
+    chkTransitionLayer.checked = view.showTransitionLayer;
+    chkWorldGrid.checked = view.showWorldGrid;
+    chkDualGrid.checked = view.showDualGrid;
+    updateActiveButton();
+
+    // Restore config panel
+    currentBuckets = buckets;
+    currentBiome = cloneBiome(config.biome);
+    nextTerrainTypeId = Math.max(nextTerrainTypeId, ...buckets.map(b => b.terrainType + 1));
+    writeGenerationSettings(config);
+    configSeed.value = config.seed === null ? '' : config.seed.toString();
+    configMapWidth.value = config.width.toString();
+    configMapHeight.value = config.height.toString();
+    generateBucketInputs();
+    updateNoiseLabels();
+    appliedGenerationSettings = captureGenerationSettings(); // The saved map was made with these
+
+    debugPanel.classList.remove('open');
+}
+
+btnSaveProject.addEventListener('click', () => {
+    if (grid.world) {
+        alert('Projects store a finite map - turn off Infinite World in ⚙️ Config → Map Generation to save one');
+        return;
+    }
 
-    console.log(`Full map generated with config:`, config);
+    const project = buildProjectFile();
+    const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+    const fileName = `terrain-project-${timestamp}.json`;
+    downloadBlob(blob, fileName);
+
+    console.log(`Saved project as ${fileName} (${grid.width}x${grid.height}, schema v${PROJECT_SCHEMA_VERSION})`);
+});
+
+btnOpenProject.addEventListener('click', () => {
+    projectFileInput.click();
+});
+
+projectFileInput.addEventListener('change', async () => {
+    const file = projectFileInput.files?.[0];
+    projectFileInput.value = ''; // Allow re-opening the same file
+    if (!file) return;
+
+    try {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(await file.text());
+        } catch {
+            throw new Error('File is not valid JSON');
+        }
+
+        const project = migrateProject(raw);
+        await applyProject(project);
+        mapHistory.clear(); // Diffs recorded against the previous map no longer apply
+        console.log(`Opened project ${file.name} (${project.grid.width}x${project.grid.height})`);
+    } catch (err) {
+        alert(`Failed to open project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        console.error('Project load error:', err);
+    }
+});
+
+// --- HISTORY UI ---
+const MAX_HISTORY_BYTES = 64 * 1024 * 1024; // Diffs for ~8M changed cells
+const historyPanel = document.getElementById('historyPanel')!;
+const historyList = document.getElementById('historyList')!;
+const historyMemory = document.getElementById('historyMemory')!;
+const btnHistory = document.getElementById('btnHistory')!;
+const btnUndo = document.getElementById('btnUndo') as HTMLButtonElement;
+const btnRedo = document.getElementById('btnRedo') as HTMLButtonElement;
+
+// Everything an undo step may need to put back
+interface MapState {
+    width: number;
+    height: number;
+    cells: Uint16Array;
+    heights: Float32Array | null; // Shared with the grid, not copied (heights are only ever replaced)
+    seed: number; // Picks the tile variants, so a regenerated map's seed has to be undone with its cells
+    buckets: TerrainBucket[];
+    biome: BiomeSettings;
+    panel: Record<string, string>; // Map Generation input values by element id
+}
+
+interface GenerationSettingsSnapshot {
+    biome: BiomeSettings;
+    panel: Record<string, string>;
+}
+
+const mapHistory = new MapHistory(MAX_HISTORY_BYTES, renderHistoryList);
+
+// Settings come from the last applied map, not the live panel: edits that haven't been applied
+// yet belong to no map, so they must not end up in (or be reverted by) a history step
+function captureMapState(): MapState {
+    const settings = appliedGenerationSettings ?? captureGenerationSettings();
+    return {
+        width: grid.width,
+        height: grid.height,
+        cells: Uint16Array.from(grid.cells),
+        heights: grid.heights,
+        seed: grid.seed,
+        buckets: grid.getBuckets(),
+        biome: settings.biome,
+        panel: settings.panel
+    };
+}
+
+function captureGenerationSettings(): GenerationSettingsSnapshot {
+    return { biome: cloneBiome(currentBiome), panel: captureGenerationPanel() };
+}
+
+// Every input in the Map Generation section, so undo restores the settings that produced a map
+function captureGenerationPanel(): Record<string, string> {
+    const values: Record<string, string> = {};
+    mapGenContent.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input[id]:not([type="file"]), select[id]').forEach(input => {
+        values[input.id] = input instanceof HTMLInputElement && input.type === 'checkbox' ? String(input.checked) : input.value;
+    });
+    return values;
+}
+
+function restoreGenerationPanel(values: Record<string, string>) {
+    Object.entries(values).forEach(([id, value]) => {
+        const input = document.getElementById(id);
+        if (input instanceof HTMLInputElement && input.type === 'checkbox') {
+            input.checked = value === 'true';
+        } else if (input instanceof HTMLInputElement || input instanceof HTMLSelectElement) {
+            input.value = value;
+        }
+    });
+    updateNoiseLabels();
+}
+
+// The non-cell part of a MapState that a history entry keeps (null where it didn't change;
+// heights are undefined when unchanged, since null is a valid "unknown heights" state)
+interface MapSettingsSnapshot {
+    seed: number;
+    heights: Float32Array | null | undefined;
+    buckets: TerrainBucket[] | null;
+    biome: BiomeSettings | null;
+    panel: Record<string, string> | null;
+}
 
-    // Close panel
-    configPanel.classList.remove('open');
+function keepChangedSettings(state: MapState, bucketsChanged: boolean, panelChanged: boolean, heightsChanged: boolean): MapSettingsSnapshot {
+    return {
+        seed: state.seed,
+        heights: heightsChanged ? state.heights : undefined,
+        buckets: bucketsChanged ? state.buckets : null,
+        biome: bucketsChanged ? state.biome : null,
+        panel: panelChanged ? state.panel : null
+    };
+}
+
+// Approximate size as UTF-16 JSON - dominated by embedded texture data URLs when buckets are kept
+function getSettingsBytes(settings: MapSettingsSnapshot): number {
+    return 8 + (settings.heights?.byteLength ?? 0) + 2 * (JSON.stringify(settings.buckets ?? []).length + JSON.stringify(settings.biome ?? {}).length +
+        JSON.stringify(settings.panel ?? {}).length);
+}
+
+// Record the difference between `before` and the current map as one undoable step.
+// `appliedSettings` are the generation settings that produced the new map (omitted for edits that keep them).
+// Same-size changes keep only the changed cells; resizes have to keep both full grids.
+function recordMapChange(label: string, before: MapState, appliedSettings?: GenerationSettingsSnapshot) {
+    if (appliedSettings) appliedGenerationSettings = appliedSettings;
+    const after = captureMapState();
+    const bucketsChanged = JSON.stringify(before.buckets) !== JSON.stringify(after.buckets) ||
+        JSON.stringify(before.biome) !== JSON.stringify(after.biome);
+    const panelChanged = JSON.stringify(before.panel) !== JSON.stringify(after.panel);
+    const resized = before.width !== after.width || before.height !== after.height;
+    const seedChanged = before.seed !== after.seed;
+    const heightsChanged = before.heights !== after.heights;
+
+    let applyCells: (side: 'before' | 'after') => void;
+    let bytes: number;
+
+    if (resized) {
+        const { width: beforeWidth, height: beforeHeight, cells: beforeCells } = before;
+        const { width: afterWidth, height: afterHeight, cells: afterCells } = after;
+        applyCells = (side) => {
+            if (side === 'before') {
+                grid.resize(beforeWidth, beforeHeight);
+                grid.loadCells(beforeCells);
+            } else {
+                grid.resize(afterWidth, afterHeight);
+                grid.loadCells(afterCells);
+            }
+        };
+        bytes = beforeCells.byteLength + afterCells.byteLength;
+    } else {
+        let changedCount = 0;
+        for (let i = 0; i < after.cells.length; i++) {
+            if (before.cells[i] !== after.cells[i]) changedCount++;
+        }
+        if (changedCount === 0 && !bucketsChanged && !panelChanged && !seedChanged && !heightsChanged) return;
+
+        const indices = new Uint32Array(changedCount);
+        const beforeValues = new Uint16Array(changedCount);
+        const afterValues = new Uint16Array(changedCount);
+        for (let i = 0, j = 0; i < after.cells.length; i++) {
+            if (before.cells[i] !== after.cells[i]) {
+                indices[j] = i;
+                beforeValues[j] = before.cells[i];
+                afterValues[j] = after.cells[i];
+                j++;
+            }
+        }
+
+        applyCells = (side) => {
+            grid.setCells(indices, side === 'before' ? beforeValues : afterValues);
+        };
+        bytes = indices.byteLength + beforeValues.byteLength + afterValues.byteLength;
+    }
+
+    // The closures below must not capture `before`/`after`: their full cell copies (and bucket
+    // data URLs) would stay alive for every entry without being counted in `bytes`
+    // (a resize drops the grid's heights, so they are put back even when they are the same array)
+    const restoreHeights = heightsChanged || resized;
+    const settings = {
+        before: keepChangedSettings(before, bucketsChanged, panelChanged, restoreHeights),
+        after: keepChangedSettings(after, bucketsChanged, panelChanged, restoreHeights)
+    };
+    bytes += getSettingsBytes(settings.before) + getSettingsBytes(settings.after);
+
+    const apply = (side: 'before' | 'after') => {
+        const state = settings[side];
+        if (seedChanged) {
+            grid.seed = state.seed;
+            grid.invalidateAll();
+        }
+        applyCells(side);
+        if (state.heights !== undefined) {
+            grid.heights = state.heights;
+        }
+        if (state.buckets && state.biome) {
+            grid.setBuckets(state.buckets);
+            currentBuckets = state.buckets.map(b => ({ ...b }));
+            applyTexturePacks(currentBuckets);
+            currentBiome = cloneBiome(state.biome);
+            generateBucketInputs();
+        }
+        if (state.panel) {
+            restoreGenerationPanel(state.panel);
+        }
+        if (state.biome || state.panel) {
+            const applied = appliedGenerationSettings ?? captureGenerationSettings();
+            appliedGenerationSettings = { biome: state.biome ?? applied.biome, panel: state.panel ?? applied.panel };
+        }
+    };
+
+    mapHistory.record({
+        label,
+        timestamp: Date.now(),
+        bytes,
+        undo: () => apply('before'),
+        redo: () => apply('after')
+    });
+}
+
+function renderHistoryList() {
+    const entries = mapHistory.getEntries();
+    const cursor = mapHistory.getCursor();
+
+    historyList.innerHTML = '';
+
+    // Entry 0 is the state before anything was recorded
+    const items = [{ label: 'Initial map', timestamp: 0 }, ...entries];
+    items.forEach((entry, index) => {
+        const item = document.createElement('div');
+        item.className = 'history-item';
+        if (index === cursor) item.classList.add('current');
+        if (index > cursor) item.classList.add('undone');
+        item.textContent = entry.timestamp
+            ? `${entry.label} · ${new Date(entry.timestamp).toLocaleTimeString()}`
+            : entry.label;
+        item.title = 'Jump to this state';
+        item.addEventListener('click', () => mapHistory.jumpTo(index));
+        historyList.appendChild(item);
+    });
+
+    historyMemory.textContent = `${(mapHistory.getTotalBytes() / 1024).toFixed(0)} KB / ${(MAX_HISTORY_BYTES / 1024 / 1024).toFixed(0)} MB`;
+    btnUndo.disabled = mapHistory.isLocked() || cursor === 0;
+    btnRedo.disabled = mapHistory.isLocked() || cursor >= entries.length;
+
+    // Keep the current entry visible
+    historyList.children[cursor]?.scrollIntoView({ block: 'nearest' });
+}
+
+btnHistory.addEventListener('click', () => {
+    historyPanel.classList.toggle('open');
+});
+
+btnUndo.addEventListener('click', () => mapHistory.undo());
+btnRedo.addEventListener('click', () => mapHistory.redo());
+
+// Ctrl+Z = undo, Ctrl+Shift+Z / Ctrl+Y = redo (Cmd on macOS)
+window.addEventListener('keydown', (e) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    // Leave text inputs their native undo
+    if (document.activeElement?.tagName === 'INPUT') return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        mapHistory.undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        mapHistory.redo();
+    }
 });
 
+renderHistoryList();